@@ -1,16 +1,52 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Activity, ShieldCheck, AlertTriangle, Info, Play, Square, Trash2 } from 'lucide-react';
+import { Activity, ShieldCheck, AlertTriangle, Play, Square, Trash2, Users, Plus, X, History, Radio, ClipboardCheck, Share2, MonitorPlay } from 'lucide-react';
 import { AnalysisCard } from './components/AnalysisCard';
-import { TruthChart } from './components/TruthChart';
+import { ReviewAction } from './components/ReviewControls';
+import { SpeakerScorecard } from './components/SpeakerScorecard';
+import { SessionBrowser } from './components/SessionBrowser';
+import { ExportMenu } from './components/ExportMenu';
 import { AudioVisualizer } from './components/AudioVisualizer';
-import { connectToLiveDebate, analyzeStatement, LiveConnectionController, LiveStatus } from './services/geminiService'; 
-import { logAnalysis, logSessionStart, logSessionEnd } from './services/loggingService';
-import { AnalysisResult, VerdictType } from './types';
+import { InputSourcePicker } from './components/InputSourcePicker';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { CorpusPanel } from './components/CorpusPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { AccountMenu } from './components/AccountMenu';
+import { useI18n } from './components/I18nProvider';
+import { isLanguage } from './services/i18n';
+import { getFactCheckProvider, LiveConnectionController, LiveConnectionState, LiveStatus } from './services/factCheckProvider';
+import {
+  captureDeviceAudio,
+  captureDisplayAudio,
+  createFileAudioSource,
+  FileAudioSource,
+  MediaInput,
+  InputSourceSelection,
+  loadInputSelection,
+  saveInputSelection
+} from './services/audioSources';
+import { createClaimCache, loadPersistedClaims } from './services/claimCache';
+import { fetchPriorStatements } from './services/historyService';
+import { searchEvidence } from './services/corpusService';
+import { fetchAccount } from './services/authService';
+import { onUnauthorized } from './services/apiClient';
+import { fetchShareToken } from './services/liveFeedService';
+import { normalizeClaim } from './services/claimMatching';
+import { createVerificationQueue, isQuotaExceededError, isRateLimitError, VerificationQueue, VerificationQueueState } from './services/verificationQueue';
+import { logAnalysis, logReview, logSegment, logSessionStart, logSessionEnd, logSpeakerCorrection } from './services/loggingService';
+import { Account, AnalysisResult, Claim, DEFAULT_LANGUAGE, DebateSegment, EditorReview, Language, LANGUAGES, Participant, UNKNOWN_SPEAKER, VerdictType } from './types';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Triagem: só afirmações com relevância mínima vão para o fact-checking
+const CHECKWORTHINESS_THRESHOLD = 0.5;
+const MIN_CLAIM_WORDS = 4;
+
+const provider = getFactCheckProvider();
+
 function App() {
+  const { t, language: uiLanguage, setLanguage: setUiLanguage } = useI18n();
   const [isConnected, setIsConnected] = useState(false);
+  const [liveState, setLiveState] = useState<LiveConnectionState>('DISCONNECTED');
   const [currentTranscript, setCurrentTranscript] = useState("");
   
   const [analysisHistory, setAnalysisHistory] = useState<AnalysisResult[]>(() => {
@@ -18,49 +54,192 @@ function App() {
     return saved ? JSON.parse(saved) : [];
   });
   
-  const [status, setStatus] = useState<LiveStatus>({ type: 'info', message: 'Pronto para iniciar' });
+  const [segments, setSegments] = useState<DebateSegment[]>(() => {
+    const saved = localStorage.getItem('debate_segments');
+    return saved ? JSON.parse(saved) : [];
+  });
+  
+  const [status, setStatus] = useState<LiveStatus>({ type: 'info', message: t('status.ready') });
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
   const [sessionId, setSessionId] = useState<string>(() => {
      return localStorage.getItem('debate_session_id') || generateId();
   });
 
+  const [participants, setParticipants] = useState<Participant[]>(() => {
+    const saved = localStorage.getItem('debate_participants');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [newParticipantName, setNewParticipantName] = useState("");
+  const [sessionLanguage, setSessionLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem('debate_language');
+    return isLanguage(saved) ? saved : DEFAULT_LANGUAGE;
+  });
+  const [view, setView] = useState<'live' | 'sessions'>('live');
+  const [inputSelection, setInputSelection] = useState<InputSourceSelection>(loadInputSelection);
+  const [mediaInput, setMediaInput] = useState<MediaInput | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [showOnlyReviewed, setShowOnlyReviewed] = useState(false);
+  const [editorName, setEditorName] = useState(() => localStorage.getItem('editor_name') || "");
+  const [account, setAccount] = useState<Account | null>(null);
+
   const connectionRef = useRef<LiveConnectionController | null>(null);
+  const [queueState, setQueueState] = useState<VerificationQueueState>({ pending: 0, running: 0, pausedUntil: null, held: false });
+  const queueRef = useRef<VerificationQueue | null>(null);
+  // Alimenta o cache com as verificações desta sessão (localStorage) já na criação
+  const [claimCache] = useState(() => {
+    const cache = createClaimCache();
+    cache.prime(
+        analysisHistory
+            .filter(h => h.status === 'DONE' && !h.repeatOf && h.review?.status !== 'FLAGGED' && h.context?.[0])
+            .map(item => ({
+                key: normalizeClaim(item.context?.[0] || ""),
+                text: item.context?.[0] || "",
+                sessionId,
+                checkedAt: item.timestamp || Date.now(),
+                analysis: item
+            }))
+    );
+    return cache;
+  });
+  const getQueue = () => {
+    if (!queueRef.current) queueRef.current = createVerificationQueue({ onChange: setQueueState });
+    return queueRef.current;
+  };
+  const fileSourceRef = useRef<FileAudioSource | null>(null);
+  // Instante da mídia em que a fala em andamento começou (ingestão de arquivo)
+  const segmentStartMediaTimeRef = useRef<number | null>(null);
+  // Lacuna de áudio à espera da próxima fala exibida
+  const pendingAudioGapRef = useRef(0);
+  // O callback de transcrição é criado no início da sessão; o ref evita ler segmentos obsoletos
+  const segmentsRef = useRef<DebateSegment[]>(segments);
   
+  // Orçamento esgotado no servidor: a fila fica retida até o teto ser ajustado no painel de consumo
+  useEffect(() => {
+    if (queueState.held) setStatus({ type: 'warning', message: t('status.budgetExceeded') });
+  }, [queueState.held, t]);
+
   useEffect(() => {
     localStorage.setItem('debate_history', JSON.stringify(analysisHistory));
     localStorage.setItem('debate_session_id', sessionId);
   }, [analysisHistory, sessionId]);
 
+  // Conta logada: o cache de sessões anteriores só existe dentro da organização
+  useEffect(() => {
+    fetchAccount().then(setAccount);
+  }, []);
+
+  // Verificações de sessões anteriores (api), recarregadas só quando muda o usuário
+  const accountUserId = account?.userId;
+  useEffect(() => {
+    if (accountUserId) loadPersistedClaims().then(entries => claimCache.prime(entries));
+  }, [accountUserId, claimCache]);
+
+  useEffect(() => {
+    return onUnauthorized(() => {
+        setAccount(null);
+        setStatus({ type: 'warning', message: t('status.signInRequired') });
+    });
+  }, [t]);
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+    localStorage.setItem('debate_segments', JSON.stringify(segments));
+  }, [segments]);
+
+  useEffect(() => {
+    localStorage.setItem('debate_participants', JSON.stringify(participants));
+  }, [participants]);
+
+  useEffect(() => {
+    localStorage.setItem('debate_language', sessionLanguage);
+  }, [sessionLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem('editor_name', editorName);
+  }, [editorName]);
+
+  useEffect(() => {
+    saveInputSelection(inputSelection);
+  }, [inputSelection]);
+
+  const handleAddParticipant = () => {
+    const name = newParticipantName.trim();
+    if (!name || participants.some(p => p.name.toLowerCase() === name.toLowerCase())) return;
+    setParticipants(prev => [...prev, { id: generateId(), name }]);
+    setNewParticipantName("");
+  };
+
+  const handleRemoveParticipant = (id: string) => {
+    setParticipants(prev => prev.filter(p => p.id !== id));
+  };
+
+  // A correção vale para o segmento inteiro e todas as afirmações extraídas dele
+  const handleSpeakerChange = (segmentId: string, speaker: string) => {
+    const item = analysisHistory.find(h => h.segmentId === segmentId);
+    const targetSegmentId = item?.parentSegmentId || segmentId;
+
+    setAnalysisHistory(prev => prev.map(h =>
+        h.segmentId === segmentId || h.parentSegmentId === targetSegmentId ? { ...h, speaker } : h
+    ));
+    setSegments(prev => prev.map(s => s.id === targetSegmentId ? { ...s, speaker } : s));
+    logSpeakerCorrection(sessionId, targetSegmentId, speaker);
+  };
+
   const handleStart = async () => {
     try {
-      if (!localStorage.getItem('debate_session_id')) {
-          const newId = generateId();
-          setSessionId(newId);
-          await logSessionStart(newId);
-      }
+      // O servidor faz upsert: retomar a mesma sessão apenas a reativa
+      await logSessionStart(sessionId, participants, sessionLanguage);
 
-      const stream = await navigator.mediaDevices.getDisplayMedia({
-        video: { width: 1, height: 1 }, 
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-          sampleRate: 48000
-        },
-        systemAudio: 'include' 
-      } as any);
+      let stream: MediaStream | null = null;
+      if (provider.requiresAudioCapture && inputSelection.kind === 'file') {
+        if (!mediaInput) {
+          setStatus({ type: 'warning', message: t('status.selectFile') });
+          return;
+        }
+        setStatus({ type: 'info', message: t('status.loadingMedia') });
+        let fileSource: FileAudioSource;
+        try {
+          fileSource = await createFileAudioSource(mediaInput, playbackRate);
+        } catch (e) {
+          console.error(e);
+          setStatus({ type: 'error', message: t('status.mediaLoadFailed') });
+          return;
+        }
+        fileSourceRef.current = fileSource;
+        stream = fileSource.stream;
+        setAudioStream(stream);
+        fileSource.onEnded(() => {
+          handleStop();
+        });
+      } else if (provider.requiresAudioCapture) {
+        stream = inputSelection.kind === 'device'
+          ? await captureDeviceAudio(inputSelection.deviceId, () => setInputSelection({ kind: 'device' }))
+          : await captureDisplayAudio();
 
-      setAudioStream(stream);
+        setAudioStream(stream);
 
-      stream.getVideoTracks()[0].onended = () => {
-        handleStop();
-      };
+        // Encerrar o compartilhamento de tela ou desconectar a interface finaliza a sessão
+        const watchedTrack = stream.getVideoTracks()[0] || stream.getAudioTracks()[0];
+        if (watchedTrack) {
+          watchedTrack.onended = () => {
+            handleStop();
+          };
+        }
+      }
 
-      const connection = await connectToLiveDebate(
+      const connection = await provider.connectToLiveDebate(
+        sessionId,
         stream,
         (transcriptData) => {
+          const fileSource = fileSourceRef.current;
+          if (fileSource && segmentStartMediaTimeRef.current === null) {
+            segmentStartMediaTimeRef.current = fileSource.getMediaTime();
+          }
           if (transcriptData.isFinal) {
-            processConfirmedSegment(transcriptData.text);
+            const mediaTime = fileSource ? segmentStartMediaTimeRef.current ?? fileSource.getMediaTime() : undefined;
+            segmentStartMediaTimeRef.current = null;
+            processConfirmedSegment(transcriptData.text, transcriptData.speaker, mediaTime, transcriptData.audioGapMs);
             setCurrentTranscript(""); 
           } else {
             setCurrentTranscript(transcriptData.text);
@@ -70,14 +249,18 @@ function App() {
           setStatus({ type: 'error', message: error.message });
           handleStop();
         },
-        (newStatus) => setStatus(newStatus)
+        (event) => setStatus({ type: event.type, message: t(event.key, event.params) }),
+        participants,
+        sessionLanguage
       );
 
       connectionRef.current = connection;
+      setLiveState(connection.getState());
+      connection.onStateChange(setLiveState);
       setIsConnected(true);
     } catch (err) {
       console.error(err);
-      setStatus({ type: 'error', message: 'Falha ao capturar áudio.' });
+      setStatus({ type: 'error', message: t('status.captureFailed') });
     }
   };
 
@@ -86,69 +269,324 @@ function App() {
       await connectionRef.current.disconnect();
       connectionRef.current = null;
     }
+    if (fileSourceRef.current) {
+      await fileSourceRef.current.stop();
+      fileSourceRef.current = null;
+    }
+    segmentStartMediaTimeRef.current = null;
+    // Lacuna sem fala depois (queda seguida de encerramento): vira uma entrada só com o marcador
+    if (pendingAudioGapRef.current > 0) {
+      const marker: DebateSegment = {
+        id: generateId(),
+        speaker: UNKNOWN_SPEAKER,
+        text: "",
+        timestamp: Date.now(),
+        audioGapMs: pendingAudioGapRef.current,
+        claims: []
+      };
+      pendingAudioGapRef.current = 0;
+      setSegments(prev => [marker, ...prev]);
+      segmentsRef.current = [marker, ...segmentsRef.current];
+      logSegment(sessionId, marker);
+    }
     if (audioStream) {
       audioStream.getTracks().forEach(track => track.stop());
-      setAudioStream(null);
     }
+    setAudioStream(null);
     setIsConnected(false);
-    setStatus({ type: 'info', message: 'Sessão finalizada' });
+    setStatus({ type: 'info', message: t('status.sessionEnded') });
     await logSessionEnd(sessionId);
   };
 
   const handleClearSession = () => {
-      if (confirm("Tem certeza? Isso apagará todo o histórico.")) {
+      if (confirm(t('status.confirmClear'))) {
+          getQueue().clear();
           setAnalysisHistory([]);
+          setSegments([]);
           setCurrentTranscript("");
           const newSessionId = generateId();
           setSessionId(newSessionId);
           localStorage.removeItem('debate_history');
+          localStorage.removeItem('debate_segments');
           localStorage.setItem('debate_session_id', newSessionId);
-          setStatus({ type: 'info', message: 'Histórico limpo.' });
+          setStatus({ type: 'info', message: t('status.historyCleared') });
       }
   };
 
   // --- LÓGICA CORE DE ANÁLISE ---
-  const processConfirmedSegment = async (text: string) => {
-    if (!text || text.trim().length < 5) return;
-
-    const newSegmentId = generateId();
+  const updateHistoryItem = (segmentId: string, patch: Partial<AnalysisResult>) => {
+    setAnalysisHistory(prev => prev.map(item => 
+        item.segmentId === segmentId ? { ...item, ...patch } : item
+    ));
+  };
 
+  const verifyClaim = async (claim: Claim, segment: DebateSegment, recentContext: string[]) => {
     const placeholderItem: AnalysisResult = {
-      segmentId: newSegmentId,
+      segmentId: claim.id,
+      parentSegmentId: segment.id,
+      speaker: segment.speaker,
+      status: 'PENDING',
+      timestamp: segment.timestamp,
       verdict: VerdictType.UNVERIFIABLE,
       confidence: 0,
-      explanation: "🔍 Verificando fatos...",
+      explanation: t('analysis.queued'),
       sources: [],
       sentimentScore: 0,
       logicalFallacies: [],
-      context: [text]
+      context: [claim.text]
     };
 
-    setAnalysisHistory(prev => [placeholderItem, ...prev]);
+    const cached = claimCache.lookup(claim.text);
+    if (cached) {
+        const repeatedResult: AnalysisResult = {
+            ...cached.analysis,
+            segmentId: claim.id,
+            parentSegmentId: segment.id,
+            speaker: segment.speaker,
+            status: 'DONE',
+            context: [claim.text],
+            timestamp: segment.timestamp,
+            tokenUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 },
+            // A repetição herda o veredito revisado, mas ainda não foi revisada ela mesma
+            review: undefined,
+            // A coerência vale para o orador da verificação original, não para quem repetiu
+            priorStatements: undefined,
+            contradiction: undefined,
+            repeatOf: {
+                segmentId: cached.analysis.segmentId,
+                sessionId: cached.sessionId,
+                checkedAt: cached.checkedAt
+            }
+        };
+        setAnalysisHistory(prev => [repeatedResult, ...prev.filter(item => item.segmentId !== claim.id)]);
+        await logAnalysis(sessionId, claim.id, claim.text, repeatedResult);
+        return;
+    }
+
+    // Uma nova tentativa reaproveita o card existente em vez de criar outro
+    setAnalysisHistory(prev => prev.some(item => item.segmentId === claim.id)
+        ? prev.map(item => item.segmentId === claim.id ? placeholderItem : item)
+        : [placeholderItem, ...prev]);
 
-    // AUMENTO DE CONTEXTO: Envia as últimas 10 frases para a IA ter noção do debate
-    const recentContext = analysisHistory.slice(0, 10).map(h => h.context?.[0] || "");
-    
     try {
-        const analysisResult = await analyzeStatement(text, newSegmentId, recentContext);
+        // Coerência com o que o mesmo orador já disse (nesta e em outras sessões)
+        // e trechos do acervo interno, consultado antes da busca na web
+        const [priorStatements, evidence] = await Promise.all([
+            segment.speaker !== UNKNOWN_SPEAKER
+                ? fetchPriorStatements(segment.speaker, claim.text, segment.id)
+                : Promise.resolve([]),
+            searchEvidence(claim.text, sessionLanguage)
+        ]);
+        const analysisResult = await getQueue().enqueue(
+            claim.id,
+            () => provider.analyzeStatement(sessionId, claim.text, claim.id, recentContext, segment.speaker, sessionLanguage, { priorStatements, evidence }),
+            {
+                onStart: () => updateHistoryItem(claim.id, { explanation: t('analysis.checking') }),
+                onRetry: (attempt, delayMs) => updateHistoryItem(claim.id, {
+                    explanation: t('analysis.rateLimitRetry', { attempt, seconds: Math.ceil(delayMs / 1000) })
+                }),
+                onHold: () => updateHistoryItem(claim.id, { explanation: t('analysis.budgetPaused') })
+            }
+        );
+        // O segmento foi corrigido enquanto esta verificação estava na fila: o resultado é descartado
+        const current = segmentsRef.current.find(s => s.id === segment.id);
+        if (current && current.text !== segment.text) return;
+
+        const finalResult: AnalysisResult = {
+            ...analysisResult,
+            // Falha de leitura: o provedor não traduz, a mensagem vem do idioma da interface
+            ...(analysisResult.status === 'PARSE_FAILURE' ? { explanation: t('analysis.parseFailed') } : {}),
+            parentSegmentId: segment.id,
+            context: [claim.text],
+            timestamp: segment.timestamp
+        };
         
         setAnalysisHistory(prev => prev.map(item => 
-            item.segmentId === newSegmentId ? { ...analysisResult, context: [text] } : item
+            item.segmentId === claim.id ? finalResult : item
         ));
 
-        await logAnalysis(sessionId, newSegmentId, text, analysisResult);
+        if (finalResult.status === 'DONE') {
+            claimCache.remember({
+                key: normalizeClaim(claim.text),
+                text: claim.text,
+                sessionId,
+                checkedAt: segment.timestamp,
+                analysis: finalResult
+            });
+        }
+
+        await logAnalysis(sessionId, claim.id, claim.text, finalResult);
 
     } catch (error) {
         console.error("Erro na verificação:", error);
-        setAnalysisHistory(prev => prev.map(item => 
-            item.segmentId === newSegmentId ? { 
-                ...item, 
-                explanation: "Erro ao conectar com serviço de verificação." 
-            } : item
-        ));
+        updateHistoryItem(claim.id, {
+            status: 'ERROR',
+            explanation: isQuotaExceededError(error)
+                ? t('analysis.quotaExceeded')
+                : isRateLimitError(error)
+                ? t('analysis.rateLimitFailed')
+                : t('analysis.connectionFailed')
+        });
+    }
+  };
+
+  const handleReview = (segmentId: string, action: ReviewAction) => {
+    const editor = editorName.trim();
+    if (!editor) {
+        setStatus({ type: 'warning', message: t('status.editorRequired') });
+        return;
+    }
+    const item = analysisHistory.find(h => h.segmentId === segmentId);
+    if (!item) return;
+
+    const review: EditorReview = {
+        status: action.status,
+        editor,
+        note: action.note,
+        reviewedAt: Date.now(),
+        // Guarda o veredito da IA na primeira edição, para exibir a mudança no card
+        originalVerdict: action.override ? (item.review?.originalVerdict || item.verdict) : item.review?.originalVerdict
+    };
+
+    const reviewed: AnalysisResult = { ...item, ...action.override, review };
+    setAnalysisHistory(prev => prev.map(h => h.segmentId === segmentId ? reviewed : h));
+    // Repetições futuras seguem o editor: veredito corrigido no cache, sinalizada fora dele
+    claimCache.revise(segmentId, action.status === 'FLAGGED' ? null : reviewed);
+    logReview(sessionId, segmentId, review, action.override);
+  };
+
+  // viewer: página pública; overlay: lower-third para OBS (tema chroma key).
+  // Os dois abrem no idioma do debate, que é o idioma do público.
+  // Os links levam o token de compartilhamento da sessão, não a sessionId
+  const handleCopyLink = async (kind: 'viewer' | 'overlay') => {
+    const label = kind === 'viewer' ? t('app.viewerLink') : t('app.overlayLink');
+    let shareToken: string;
+    try {
+        shareToken = await fetchShareToken(sessionId);
+    } catch (e) {
+        console.error(e);
+        setStatus({ type: 'warning', message: t('status.shareUnavailable') });
+        return;
+    }
+    const query = kind === 'viewer' ? `viewer=${encodeURIComponent(shareToken)}` : `overlay=${encodeURIComponent(shareToken)}&theme=chroma&dwell=8`;
+    const url = `${window.location.origin}${window.location.pathname}?${query}&lang=${sessionLanguage}`;
+    try {
+        await navigator.clipboard.writeText(url);
+        setStatus({ type: 'info', message: t('app.linkCopied', { label }) });
+    } catch {
+        window.prompt(`${label}:`, url);
     }
   };
 
+  const handleRetry = (segmentId: string) => {
+    const item = analysisHistory.find(h => h.segmentId === segmentId);
+    if (!item) return;
+
+    const segment = segmentsRef.current.find(s => s.id === item.parentSegmentId) || {
+        id: item.parentSegmentId || segmentId,
+        speaker: item.speaker || UNKNOWN_SPEAKER,
+        text: item.context?.[0] || "",
+        timestamp: item.timestamp || Date.now()
+    };
+    const recentContext = segmentsRef.current
+        .filter(s => s.timestamp < segment.timestamp)
+        .slice(0, 10)
+        .map(s => s.speaker !== UNKNOWN_SPEAKER ? `${s.speaker}: ${s.text}` : s.text);
+
+    verifyClaim({ id: segmentId, text: item.context?.[0] || "", checkworthiness: 1 }, segment, recentContext);
+  };
+
+  // Triagem + verificação de um segmento já exibido na transcrição
+  const triageAndVerify = async (segment: DebateSegment, recentContext: string[]) => {
+    // Falas curtas demais (hesitações, cumprimentos) nem passam pela triagem
+    let claims: Claim[] = [];
+    if (segment.text.trim().split(/\s+/).length >= MIN_CLAIM_WORDS) {
+        try {
+            const extracted = await getQueue().enqueue(
+                `claims-${segment.id}`,
+                () => provider.extractClaims(sessionId, segment.text, segment.speaker, recentContext, sessionLanguage)
+            );
+            claims = extracted
+                .filter(c => c.checkworthiness >= CHECKWORTHINESS_THRESHOLD)
+                .map(c => ({ ...c, id: generateId() }));
+        } catch (error) {
+            // Sem triagem, o segmento inteiro segue para verificação (comportamento anterior)
+            console.error("Erro na triagem:", error);
+            claims = [{ id: generateId(), text: segment.text, checkworthiness: 1 }];
+        }
+    }
+
+    // Corrigido durante a triagem: a nova versão já tem a sua própria triagem em andamento
+    const current = segmentsRef.current.find(s => s.id === segment.id);
+    if (current && current.text !== segment.text) return;
+
+    const triagedSegment = { ...segment, claims };
+    setSegments(prev => prev.map(s => s.id === segment.id ? triagedSegment : s));
+    segmentsRef.current = segmentsRef.current.map(s => s.id === segment.id ? triagedSegment : s);
+    logSegment(sessionId, triagedSegment);
+
+    await Promise.all(claims.map(claim => verifyClaim(claim, triagedSegment, recentContext)));
+  };
+
+  const processConfirmedSegment = async (text: string, speaker: string = UNKNOWN_SPEAKER, mediaTime?: number, audioGapMs?: number) => {
+    // Fala curta demais é descartada, mas a lacuna antes dela passa para a próxima
+    const gapMs = pendingAudioGapRef.current + (audioGapMs || 0);
+    if (!text || text.trim().length < 5) {
+        pendingAudioGapRef.current = gapMs;
+        return;
+    }
+    pendingAudioGapRef.current = 0;
+
+    const segment: DebateSegment = {
+      id: generateId(),
+      speaker,
+      text,
+      timestamp: Date.now(),
+      mediaTime,
+      audioGapMs: gapMs || undefined,
+      claims: []
+    };
+
+    // AUMENTO DE CONTEXTO: Envia as últimas 10 falas para a IA ter noção do debate
+    const recentContext = segmentsRef.current.slice(0, 10).map(s =>
+        s.speaker !== UNKNOWN_SPEAKER ? `${s.speaker}: ${s.text}` : s.text
+    );
+
+    setSegments(prev => [segment, ...prev]);
+    segmentsRef.current = [segment, ...segmentsRef.current];
+
+    await triageAndVerify(segment, recentContext);
+  };
+
+  // Correção manual da transcrição: as verificações antigas do segmento saem do feed
+  // (e são marcadas como substituídas no servidor pelo logSegment) e a fala é verificada de novo
+  const handleSegmentEdit = async (segmentId: string, text: string) => {
+    const original = segmentsRef.current.find(s => s.id === segmentId);
+    if (!original) return;
+
+    const edited: DebateSegment = {
+      ...original,
+      text,
+      originalText: original.originalText ?? original.text,
+      editedAt: Date.now(),
+      claims: []
+    };
+    const recentContext = segmentsRef.current
+        .filter(s => s.timestamp < original.timestamp)
+        .slice(0, 10)
+        .map(s => s.speaker !== UNKNOWN_SPEAKER ? `${s.speaker}: ${s.text}` : s.text);
+
+    setSegments(prev => prev.map(s => s.id === segmentId ? edited : s));
+    segmentsRef.current = segmentsRef.current.map(s => s.id === segmentId ? edited : s);
+    setAnalysisHistory(prev => prev.filter(item => item.parentSegmentId !== segmentId));
+
+    await triageAndVerify(edited, recentContext);
+  };
+
+  const queueDepth = queueState.pending + queueState.running;
+  const completedCount = analysisHistory.filter(item => item.status !== 'PENDING').length;
+  const visibleHistory = showOnlyReviewed ? analysisHistory.filter(h => h.review) : analysisHistory;
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 font-sans selection:bg-blue-500 selection:text-white">
       <header className="border-b border-slate-800 bg-slate-950/50 backdrop-blur-md sticky top-0 z-50">
@@ -157,12 +595,24 @@ function App() {
             <div className="relative">
               <ShieldCheck className="w-8 h-8 text-blue-500" />
               {isConnected && (
-                <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full animate-pulse shadow-[0_0_10px_rgba(34,197,94,0.5)]" />
+                <span
+                  className={`absolute -top-1 -right-1 w-3 h-3 rounded-full animate-pulse ${
+                    liveState === 'CONNECTED' ? 'bg-green-500 shadow-[0_0_10px_rgba(34,197,94,0.5)]' : 'bg-yellow-400 shadow-[0_0_10px_rgba(250,204,21,0.5)]'
+                  }`}
+                  title={t(`live.${liveState}`)}
+                />
               )}
             </div>
             <div>
               <h1 className="font-bold text-xl tracking-tight">Veritas<span className="text-blue-500">Live</span></h1>
-              <p className="text-xs text-slate-400 font-medium">Fact-Checking em Tempo Real</p>
+              <p className="text-xs text-slate-400 font-medium">
+                {t('app.tagline')}
+                {provider.id !== 'gemini' && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/20 uppercase">
+                    {provider.label}
+                  </span>
+                )}
+              </p>
             </div>
           </div>
 
@@ -174,6 +624,11 @@ function App() {
               'bg-slate-800 border-slate-700 text-slate-400'
             }`}>
               {status.message}
+              {queueDepth > 0 && (
+                <span className="ml-2 opacity-80" title={t('app.queueTitle')}>
+                  · {t('app.queueDepth', { count: queueDepth })}{queueState.held ? ` ${t('app.queueHeld')}` : queueState.pausedUntil ? ` ${t('app.queuePaused')}` : ''}
+                </span>
+              )}
             </div>
             
             {!isConnected ? (
@@ -182,7 +637,7 @@ function App() {
                 className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-all shadow-lg shadow-blue-900/20 active:scale-95"
               >
                 <Play className="w-4 h-4 fill-current" />
-                Iniciar
+                {t('app.start')}
               </button>
             ) : (
               <button
@@ -190,81 +645,226 @@ function App() {
                 className="flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-lg font-medium transition-all"
               >
                 <Square className="w-4 h-4 fill-current" />
-                Parar
+                {t('app.stop')}
+              </button>
+            )}
+
+            {view === 'live' && (
+              <>
+                <button
+                    onClick={() => handleCopyLink('viewer')}
+                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title={t('app.copyViewerLink')}
+                >
+                    <Share2 className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={() => handleCopyLink('overlay')}
+                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title={t('app.copyOverlayLink')}
+                >
+                    <MonitorPlay className="w-5 h-5" />
+                </button>
+              </>
+            )}
+
+            {view === 'live' && (
+              <ExportMenu data={{ sessionId, segments, analyses: analysisHistory }} />
+            )}
+
+            {view === 'live' && reviewMode && (
+              <input
+                value={editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+                placeholder={t('app.editorName')}
+                className="w-36 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+              />
+            )}
+
+            {view === 'live' && (
+              <button
+                  onClick={() => setReviewMode(!reviewMode)}
+                  className={`p-2 rounded-lg transition-colors ${reviewMode ? 'text-blue-400 bg-blue-500/10' : 'text-slate-400 hover:text-blue-400 hover:bg-slate-800'}`}
+                  title={t('app.reviewMode')}
+              >
+                  <ClipboardCheck className="w-5 h-5" />
               </button>
             )}
 
+            <button
+                onClick={() => setView(view === 'live' ? 'sessions' : 'live')}
+                className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                title={view === 'live' ? t('app.pastSessions') : t('app.backToLive')}
+            >
+                {view === 'live' ? <History className="w-5 h-5" /> : <Radio className="w-5 h-5" />}
+            </button>
+
             <button
                 onClick={handleClearSession}
                 className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
-                title="Limpar Histórico"
+                title={t('app.clearHistory')}
             >
                 <Trash2 className="w-5 h-5" />
             </button>
+
+            <AccountMenu account={account} onAccountChange={setAccount} />
+
+            <select
+                value={uiLanguage}
+                onChange={(e) => setUiLanguage(e.target.value as Language)}
+                className="bg-transparent text-xs text-slate-400 hover:text-slate-200 focus:outline-none cursor-pointer"
+                title={t('app.interfaceLanguage')}
+            >
+                {LANGUAGES.map(lang => <option key={lang} value={lang} className="bg-slate-900">{t(`language.${lang}`)}</option>)}
+            </select>
           </div>
         </div>
       </header>
 
+      {view === 'sessions' ? (
+      <main className="container mx-auto px-4 py-6">
+        <SessionBrowser />
+      </main>
+      ) : (
       <main className="container mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
         <div className="lg:col-span-4 space-y-6 h-fit sticky top-24">
           <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
             <h2 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
               <Activity className="w-4 h-4" />
-              Sinal de Áudio
+              {t('app.audioSignal')}
             </h2>
             <AudioVisualizer stream={audioStream} isConnected={isConnected} />
-          </div>
 
-          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
-             <TruthChart history={analysisHistory} />
+            <div className="mt-2">
+              <AudioVisualizer stream={audioStream} isConnected={isConnected} variant="meter" />
+            </div>
+
+            {provider.requiresAudioCapture && !isConnected && (
+              <InputSourcePicker
+                selection={inputSelection}
+                onSelectionChange={setInputSelection}
+                onMediaChange={setMediaInput}
+                playbackRate={playbackRate}
+                onPlaybackRateChange={setPlaybackRate}
+              />
+            )}
           </div>
 
-          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 h-[400px] flex flex-col shadow-sm">
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
             <h2 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
-              <Info className="w-4 h-4" />
-              Transcrição ao Vivo
+              <Users className="w-4 h-4" />
+              {t('app.participants')}
             </h2>
-            
-            <div className="flex-1 overflow-y-auto pr-2 font-mono text-sm leading-relaxed scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent flex flex-col gap-3">
-               {currentTranscript && (
-                   <div className="text-blue-300 animate-pulse border-l-2 border-blue-500 pl-2">
-                       {currentTranscript}
-                   </div>
-               )}
-
-               {analysisHistory.slice(0, 15).map((item, i) => (
-                   <p key={item.segmentId} className="text-slate-400 opacity-60 border-l-2 border-transparent pl-2 transition-all hover:opacity-100">
-                       {item.context?.[0]}
-                   </p>
-               ))}
+            <label className="flex items-center justify-between gap-2 text-xs text-slate-500 mb-3">
+              {t('app.debateLanguage')}
+              <select
+                value={sessionLanguage}
+                onChange={(e) => setSessionLanguage(e.target.value as Language)}
+                disabled={isConnected}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 disabled:opacity-50"
+              >
+                {LANGUAGES.map(lang => <option key={lang} value={lang}>{t(`language.${lang}`)}</option>)}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {participants.length === 0 && (
+                <p className="text-xs text-slate-500">{t('app.noParticipants')}</p>
+              )}
+              {participants.map(p => (
+                <span key={p.id} className="flex items-center gap-1 text-xs bg-slate-900 border border-slate-700 text-slate-300 px-2 py-1 rounded">
+                  {p.name}
+                  {!isConnected && (
+                    <button onClick={() => handleRemoveParticipant(p.id)} className="text-slate-500 hover:text-red-400" title={t('app.remove')}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
             </div>
+            {!isConnected && (
+              <div className="flex gap-2">
+                <input
+                  value={newParticipantName}
+                  onChange={(e) => setNewParticipantName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddParticipant()}
+                  placeholder={t('app.participantName')}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={handleAddParticipant}
+                  className="p-2 bg-slate-900 border border-slate-700 text-slate-400 hover:text-blue-400 rounded-lg transition-colors"
+                  title={t('app.addParticipant')}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          <CorpusPanel language={sessionLanguage} />
+
+          <UsagePanel
+            sessionId={sessionId}
+            refreshKey={completedCount}
+            onBudgetChange={(usage) => {
+              if (!usage.overBudget) getQueue().resume();
+            }}
+          />
+
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
+             <SpeakerScorecard history={analysisHistory} />
           </div>
+
+          <TranscriptPanel
+            title={t('common.liveTranscript')}
+            segments={segments}
+            liveText={currentTranscript}
+            onEdit={handleSegmentEdit}
+          />
         </div>
 
         <div className="lg:col-span-8 space-y-4">
           <div className="flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-slate-200">Feed de Análise</h2>
-            <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
-              {analysisHistory.length} verificações
-            </span>
+            <h2 className="text-lg font-semibold text-slate-200">{t('common.analysisFeed')}</h2>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showOnlyReviewed}
+                  onChange={(e) => setShowOnlyReviewed(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                {t('app.onlyReviewed')}
+              </label>
+              <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
+                {t('common.checks', { count: analysisHistory.length })}
+              </span>
+            </div>
           </div>
           
           <div className="min-h-[50vh] space-y-4 pb-10">
             {analysisHistory.length === 0 ? (
               <div className="h-64 flex flex-col items-center justify-center text-slate-500 gap-4 border-2 border-dashed border-slate-800 rounded-xl">
                 <AlertTriangle className="w-12 h-12 opacity-20" />
-                <p>Aguardando início do debate...</p>
+                <p>{t('app.waitingDebate')}</p>
               </div>
             ) : (
-              analysisHistory.map((analysis) => (
+              visibleHistory.map((analysis) => (
                 <div key={analysis.segmentId} className="animate-in fade-in slide-in-from-top-4 duration-500">
-                    <AnalysisCard result={analysis} />
+                    <AnalysisCard
+                      result={analysis}
+                      speakerOptions={participants.map(p => p.name)}
+                      onSpeakerChange={handleSpeakerChange}
+                      onRetry={handleRetry}
+                      onReview={reviewMode ? handleReview : undefined}
+                    />
                 </div>
               ))
             )}
           </div>
         </div>
       </main>
+      )}
     </div>
   );
 }
@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Db, Document } from 'mongodb';
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { UserRole } from '../../types.js';
+
+// --- AUTENTICAÇÃO E ESCOPO POR ORGANIZAÇÃO ---
+// Todo acesso à api usa um token Bearer: de login (expira) ou de integração (até ser revogado).
+// Só o hash SHA-256 do token fica no banco (api_tokens).
+
+export interface AuthContext {
+  userId: string;
+  orgId: string;
+  role: UserRole;
+}
+
+export type TokenKind = 'login' | 'api';
+
+export const MIN_PASSWORD_LENGTH = 8;
+const LOGIN_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const TOKEN_PREFIX = 'vl_';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const newId = () => randomBytes(12).toString('hex');
+
+// Campos de cadastro vêm do corpo da requisição: qualquer tipo pode chegar
+export const isFilledString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// scrypt com sal por usuário; formato "sal:hash" em hexadecimal
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = (stored || '').split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// Devolve o token em texto puro uma única vez; depois só o hash existe
+export async function issueToken(db: Db, user: Document, kind: TokenKind, name = ''): Promise<{ token: string; tokenId: string }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const tokenId = newId();
+  await db.collection('api_tokens').insertOne({
+    token_id: tokenId,
+    token_hash: hashToken(token),
+    kind,
+    name,
+    user_id: user.user_id,
+    org_id: user.org_id,
+    created_at: new Date(),
+    expires_at: kind === 'login' ? new Date(Date.now() + LOGIN_TOKEN_TTL_MS) : null,
+    revoked_at: null,
+    last_used_at: null
+  });
+  return { token, tokenId };
+}
+
+const bearerToken = (req: VercelRequest) => /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')?.[1] || null;
+
+export async function authenticate(req: VercelRequest, db: Db): Promise<AuthContext | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const record = await db.collection('api_tokens').findOne({ token_hash: hashToken(token), revoked_at: null });
+  if (!record || (record.expires_at && new Date(record.expires_at).getTime() < Date.now())) return null;
+
+  const user = await db.collection('users').findOne({ user_id: record.user_id, disabled: { $ne: true } });
+  if (!user) return null;
+
+  // Registro de uso sem bloquear a resposta
+  db.collection('api_tokens').updateOne({ _id: record._id }, { $set: { last_used_at: new Date() } }).catch(() => {});
+  return { userId: user.user_id, orgId: user.org_id, role: user.role === 'admin' ? 'admin' : 'member' };
+}
+
+// Logout: revoga o token usado na própria requisição
+export async function revokeRequestToken(req: VercelRequest, db: Db) {
+  const token = bearerToken(req);
+  if (!token) return;
+  await db.collection('api_tokens').updateOne({ token_hash: hashToken(token) }, { $set: { revoked_at: new Date() } });
+}
+
+// Responde 401 e devolve null quando não há credencial válida
+export async function requireAuth(req: VercelRequest, res: VercelResponse, db: Db): Promise<AuthContext | null> {
+  const auth = await authenticate(req, db);
+  if (!auth) res.status(401).json({ error: "Autenticação necessária" });
+  return auth;
+}
+
+// Sessões pertencem à organização de quem as criou; 404 para inexistentes, 403 para as de outra organização
+export async function requireSessionAccess(
+  db: Db,
+  auth: AuthContext,
+  sessionId: string,
+  res: VercelResponse
+): Promise<Document | null> {
+  const session = await db.collection('sessions').findOne({ session_id: sessionId });
+  if (!session) {
+    res.status(404).json({ error: "Sessão não encontrada" });
+    return null;
+  }
+  if (session.org_id !== auth.orgId) {
+    res.status(403).json({ error: "Sessão pertence a outra organização" });
+    return null;
+  }
+  return session;
+}
@@ -0,0 +1,56 @@
+import type { Db } from 'mongodb';
+import type { Language } from '../../types.js';
+
+// --- ACERVO INTERNO ---
+// Documentos são quebrados em trechos com sobreposição e indexados por busca textual do Mongo.
+
+const CHUNK_MAX_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// Idiomas de stemming do índice textual; o campo "language" é reservado pelo Mongo,
+// por isso o idioma de cada trecho fica em text_language
+export const TEXT_SEARCH_LANGUAGES: Record<Language, string> = {
+  'pt-BR': 'portuguese',
+  es: 'spanish',
+  en: 'english',
+};
+
+let indexesReady = false;
+
+export async function ensureCorpusIndexes(db: Db) {
+  if (indexesReady) return;
+  await db.collection('corpus_chunks').createIndex(
+    { title: 'text', content: 'text' },
+    { name: 'corpus_text', weights: { title: 3, content: 1 }, language_override: 'text_language', default_language: 'portuguese' }
+  );
+  await db.collection('corpus_chunks').createIndex({ document_id: 1 });
+  indexesReady = true;
+}
+
+// Junta parágrafos até o limite; parágrafos longos demais são cortados em frases.
+// Cada trecho novo repete o final do anterior para não perder contexto na fronteira.
+export function chunkDocument(text: string): string[] {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(p => p.length <= CHUNK_MAX_CHARS ? [p] : p.split(/(?<=[.!?;])\s+/));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 1 > CHUNK_MAX_CHARS) {
+      chunks.push(current);
+      current = current.slice(-CHUNK_OVERLAP_CHARS).replace(/^\S*\s/, '');
+    }
+    current = current ? `${current} ${paragraph}` : paragraph;
+    // Frase única maior que o limite: corte seco
+    while (current.length > CHUNK_MAX_CHARS) {
+      chunks.push(current.slice(0, CHUNK_MAX_CHARS));
+      current = current.slice(CHUNK_MAX_CHARS - CHUNK_OVERLAP_CHARS);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
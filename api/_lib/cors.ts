@@ -0,0 +1,27 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Origens liberadas para chamadas cross-origin, separadas por vírgula (ALLOWED_ORIGINS).
+// Sem a variável, só o próprio domínio do app acessa a api.
+const allowedOrigins = () =>
+  (process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+// Aplica os cabeçalhos CORS; devolve true quando a requisição era um preflight já respondido
+export function applyCors(req: VercelRequest, res: VercelResponse, methods: string): boolean {
+  const origin = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  if (origin && allowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', `${methods},OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Last-Event-ID');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,335 @@
+import { Content, GenerateContentConfig, GenerateContentResponse, GoogleGenAI, Modality } from '@google/genai';
+import { AnalysisResult, Claim, DEFAULT_LANGUAGE, EvidenceChunk, Language, Participant, PriorStatement, UNKNOWN_SPEAKER, VerificationContext, VerdictType } from '../../types.js';
+import { describeTaxonomyForPrompt } from '../../services/fallacyTaxonomy.js';
+import { evidenceRef, parseModelResponse, priorStatementRef, resolveContradiction, resolveEvidenceSources, validateAnalysisPayload, validateClaimsPayload, ValidationResult } from '../../services/analysisSchema.js';
+
+// --- GEMINI NO SERVIDOR ---
+// A chave GEMINI_API_KEY só existe aqui: o navegador chama /api/ai/* e, para a
+// transcrição ao vivo, recebe um token efêmero preso ao modelo e às instruções abaixo.
+
+export const MODEL_NAME = "gemini-2.0-flash-exp";
+export const LIVE_MODEL_NAME = "models/gemini-2.0-flash-exp";
+
+// Tokens efêmeros precisam ser usados em até 1 min; a sessão aberta com eles vale por 4 h
+const LIVE_TOKEN_START_WINDOW_MS = 60 * 1000;
+const LIVE_TOKEN_TTL_MS = 4 * 60 * 60 * 1000;
+
+export type TokenUsage = NonNullable<AnalysisResult['tokenUsage']>;
+// Reserva a quota de mais uma chamada ao modelo; false encerra as tentativas
+export type ReserveAttempt = () => Promise<boolean>;
+const ALWAYS_RESERVE: ReserveAttempt = async () => true;
+export const emptyTokenUsage = (): TokenUsage => ({ promptTokens: 0, responseTokens: 0, totalTokens: 0 });
+
+let cachedAi: GoogleGenAI | null = null;
+
+function getGenAI(): GoogleGenAI {
+  if (cachedAi) return cachedAi;
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new Error("Defina a variável GEMINI_API_KEY no servidor");
+  cachedAi = new GoogleGenAI({ apiKey });
+  return cachedAi;
+}
+
+// Nome do idioma do debate no transcritor (instrução em inglês) e nos prompts (em português)
+const LANGUAGE_NAMES: Record<Language, { transcriber: string; prompt: string }> = {
+  'pt-BR': { transcriber: 'Portuguese (Brazil)', prompt: 'português do Brasil' },
+  es: { transcriber: 'Spanish', prompt: 'espanhol' },
+  en: { transcriber: 'English', prompt: 'inglês' },
+};
+
+function buildTranscriberInstruction(participants: Participant[], language: Language = DEFAULT_LANGUAGE): string {
+  const base = `You are a real-time transcriber for ${LANGUAGE_NAMES[language].transcriber}. Output words immediately as they are spoken, in the language they are spoken. Do not translate or summarize.`;
+  if (participants.length === 0) return base;
+
+  const names = participants.map(p => p.role ? `${p.name} (${p.role})` : p.name).join(", ");
+  return `${base} The debate participants are: ${names}. Whenever the speaker changes, start the new line with the speaker tag [Name]: using exactly one of these names, or [${UNKNOWN_SPEAKER}]: if you cannot tell who is speaking.`;
+}
+
+// --- LIMITES DAS ENTRADAS DO CLIENTE ---
+// Contexto, histórico do orador e acervo chegam do navegador e vão literalmente para o prompt
+const MAX_CONTEXT_ENTRIES = 10;
+const MAX_PRIOR_STATEMENTS = 5;
+const MAX_EVIDENCE_CHUNKS = 10;
+const MAX_ENTRY_CHARS = 1500;
+const MAX_FIELD_CHARS = 200;
+// Trecho a verificar: acima disso a rota responde 400 em vez de cortar a fala no meio
+export const MAX_STATEMENT_CHARS = 4000;
+
+const clip = (value: unknown, max: number) => typeof value === 'string' ? value.slice(0, max) : '';
+
+export const limitSpeaker = (input: unknown): string => clip(input, MAX_FIELD_CHARS) || UNKNOWN_SPEAKER;
+
+export function limitContextHistory(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  return input.slice(0, MAX_CONTEXT_ENTRIES).map(entry => clip(entry, MAX_ENTRY_CHARS)).filter(Boolean);
+}
+
+export function limitVerificationContext(input: any): VerificationContext {
+  const priorStatements: any[] = Array.isArray(input?.priorStatements) ? input.priorStatements.slice(0, MAX_PRIOR_STATEMENTS) : [];
+  const evidence: any[] = Array.isArray(input?.evidence) ? input.evidence.slice(0, MAX_EVIDENCE_CHUNKS) : [];
+  return {
+    priorStatements: priorStatements.map((statement): PriorStatement => ({
+      segmentId: clip(statement?.segmentId, MAX_FIELD_CHARS),
+      sessionId: clip(statement?.sessionId, MAX_FIELD_CHARS),
+      text: clip(statement?.text, MAX_ENTRY_CHARS),
+      verdict: Object.values(VerdictType).includes(statement?.verdict) ? statement.verdict : VerdictType.UNVERIFIABLE,
+      spokenAt: Number(statement?.spokenAt) || 0,
+    })),
+    evidence: evidence.map((chunk): EvidenceChunk => ({
+      id: clip(chunk?.id, MAX_FIELD_CHARS),
+      documentId: clip(chunk?.documentId, MAX_FIELD_CHARS),
+      title: clip(chunk?.title, MAX_FIELD_CHARS),
+      uri: clip(chunk?.uri, MAX_ENTRY_CHARS) || undefined,
+      content: clip(chunk?.content, MAX_ENTRY_CHARS),
+      score: Number(chunk?.score) || 0,
+    })),
+  };
+}
+
+// --- GERAÇÃO COM VALIDAÇÃO ---
+const MAX_PARSE_RETRIES = 2;
+
+const buildRetryPrompt = (errors: string[]) => `
+    SUA RESPOSTA ANTERIOR NÃO PASSOU NA VALIDAÇÃO:
+    ${errors.map(e => `- ${e}`).join("\n")}
+
+    Corrija os problemas e responda APENAS o JSON no formato pedido.
+`;
+
+// Chama o modelo e valida a resposta; se inválida, reenvia os erros ao modelo
+// por no máximo MAX_PARSE_RETRIES tentativas adicionais. A primeira chamada já foi
+// reservada pela rota; cada tentativa adicional reserva a sua via reserveAttempt.
+// Os tokens somam em `usage`, que a rota registra mesmo quando uma chamada lança erro.
+async function generateValidated<T>(
+  prompt: string,
+  config: GenerateContentConfig,
+  validate: (input: unknown) => ValidationResult<T>,
+  reserveAttempt: ReserveAttempt,
+  usage: TokenUsage
+): Promise<{ result: ValidationResult<T>; response: GenerateContentResponse; usage: TokenUsage }> {
+  const ai = getGenAI();
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  let response: GenerateContentResponse | null = null;
+  let result: ValidationResult<T> = { ok: false, errors: [] };
+
+  for (let attempt = 0; attempt <= MAX_PARSE_RETRIES; attempt++) {
+    if (attempt > 0 && !await reserveAttempt()) break;
+    response = await ai.models.generateContent({ model: MODEL_NAME, contents, config });
+    usage.promptTokens += response.usageMetadata?.promptTokenCount || 0;
+    usage.responseTokens += response.usageMetadata?.candidatesTokenCount || 0;
+    usage.totalTokens += response.usageMetadata?.totalTokenCount || 0;
+
+    const text = response.text || "";
+    result = parseModelResponse(text, validate);
+    if (!('errors' in result)) break;
+
+    console.warn(`Resposta inválida (tentativa ${attempt + 1}):`, result.errors);
+    contents.push(
+      { role: 'model', parts: [{ text }] },
+      { role: 'user', parts: [{ text: buildRetryPrompt(result.errors) }] }
+    );
+  }
+
+  return { result, response: response!, usage };
+}
+
+// --- TRIAGEM DE AFIRMAÇÕES ---
+export async function extractClaims(
+  text: string,
+  speaker: string = UNKNOWN_SPEAKER,
+  contextHistory: string[] = [],
+  language: Language = DEFAULT_LANGUAGE,
+  reserveAttempt: ReserveAttempt = ALWAYS_RESERVE,
+  usage: TokenUsage = emptyTokenUsage()
+): Promise<{ claims: Omit<Claim, 'id'>[]; usage: TokenUsage }> {
+  const prompt = `
+    ATUE COMO: Editor de Fact-Checking responsável pela triagem de falas.
+    CONTEXTO:
+    ${contextHistory.map(c => `- ${c}`).join("\n")}
+
+    ORADOR: ${speaker === UNKNOWN_SPEAKER ? "Não identificado" : speaker}
+
+    TRECHO:
+    "${text}"
+
+    INSTRUÇÕES:
+    1. Separe o trecho em afirmações factuais verificáveis (números, estatísticas, fatos históricos, leis, eventos).
+    2. Ignore cumprimentos, hesitações, perguntas, opiniões puras e promessas.
+    3. Reescreva cada afirmação de forma autocontida, resolvendo pronomes com o contexto.
+    4. Dê a cada uma um "checkworthiness" de 0 a 1 (relevância pública e possibilidade de verificação).
+    5. O debate é em ${LANGUAGE_NAMES[language].prompt}: escreva as afirmações nesse idioma, sem traduzir.
+    6. Responda APENAS o JSON abaixo. Use lista vazia se não houver afirmações.
+
+    JSON:
+    {
+      "claims": [{"text": "Afirmação autocontida.", "checkworthiness": 0.8}]
+    }
+  `;
+
+  const { result } = await generateValidated(
+    prompt,
+    { responseMimeType: "application/json" },
+    validateClaimsPayload,
+    reserveAttempt,
+    usage
+  );
+  if ('errors' in result) throw new Error(`Resposta de triagem inválida: ${result.errors.join(" ")}`);
+
+  return { claims: result.value.claims, usage };
+}
+
+// --- FACT CHECKING ---
+
+// Declarações anteriores do orador, com o veredito que receberam, para checar coerência
+const describePriorStatements = (priorStatements: PriorStatement[]) =>
+  priorStatements
+    .map((statement, i) => `[${priorStatementRef(i)}] ${new Date(statement.spokenAt).toLocaleDateString('pt-BR')} (veredito: ${statement.verdict}): "${statement.text}"`)
+    .join("\n");
+
+// Trechos do acervo interno (dossiês, dados oficiais, checagens publicadas pela redação)
+const describeEvidence = (evidence: EvidenceChunk[]) =>
+  evidence
+    .map((chunk, i) => `[${evidenceRef(i)}] ${chunk.title}: "${chunk.content}"`)
+    .join("\n");
+
+export async function analyzeStatement(
+  text: string,
+  segmentId: string,
+  contextHistory: string[] = [],
+  speaker: string = UNKNOWN_SPEAKER,
+  language: Language = DEFAULT_LANGUAGE,
+  verification: VerificationContext = {},
+  reserveAttempt: ReserveAttempt = ALWAYS_RESERVE,
+  usage: TokenUsage = emptyTokenUsage()
+): Promise<AnalysisResult> {
+  const priorStatements = verification.priorStatements || [];
+  const evidence = verification.evidence || [];
+
+  const prompt = `
+      ATUE COMO: Especialista Sênior em Fact-Checking.
+      CONTEXTO:
+      ${contextHistory.map(c => `- ${c}`).join("\n")}
+
+      ORADOR: ${speaker === UNKNOWN_SPEAKER ? "Não identificado" : speaker}
+
+      AFIRMAÇÃO:
+      "${text}"
+
+      DECLARAÇÕES ANTERIORES DO MESMO ORADOR:
+      ${priorStatements.length ? describePriorStatements(priorStatements) : "(nenhuma)"}
+
+      ACERVO INTERNO (fontes já verificadas pela redação):
+      ${evidence.length ? describeEvidence(evidence) : "(nenhum trecho relevante)"}
+
+      INSTRUÇÕES:
+      1. Use primeiro o ACERVO INTERNO; valide ou complemente com 'googleSearch'. Em "evidenceRefs", liste os códigos (ex.: "E1") dos trechos do acervo que sustentam o veredito (lista vazia se nenhum).
+      2. Em "counterEvidence", resuma dados ou fatos que contradizem ou relativizam a afirmação (string vazia se não houver).
+      3. Em "sentimentScore", avalie o tom da fala de -1 (hostil/negativo) a 1 (positivo).
+      4. Em "logicalFallacies", liste falácias presentes usando SOMENTE os ids abaixo (lista vazia se não houver):
+      ${describeTaxonomyForPrompt()}
+      5. Escreva "explanation" e "counterEvidence" em ${LANGUAGE_NAMES[language].prompt}, o idioma do debate; priorize fontes nesse idioma.
+      6. Em "contradiction", indique o código (ex.: "A1") da declaração anterior que a afirmação contradiz diretamente, com uma explicação curta no idioma do debate; use null se não houver contradição (mudar de assunto ou atualizar um número com dados novos não é contradição).
+      7. Responda APENAS o JSON abaixo.
+
+      JSON:
+      {
+        "verdict": "TRUE" | "FALSE" | "MISLEADING" | "OPINION" | "UNVERIFIABLE",
+        "confidence": 0.9,
+        "explanation": "Resumo curto.",
+        "counterEvidence": "Dados que contradizem a afirmação.",
+        "sentimentScore": -0.3,
+        "logicalFallacies": [{"id": "AD_HOMINEM"}],
+        "sources": [{"title": "Fonte", "uri": "URL"}],
+        "contradiction": null,
+        "evidenceRefs": []
+      }
+    `;
+
+  const { result, response } = await generateValidated(
+    prompt,
+    {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+    },
+    validateAnalysisPayload,
+    reserveAttempt,
+    usage
+  );
+
+  // Falha de leitura é um status próprio, não um veredito "inconclusivo"
+  if ('errors' in result) {
+    return {
+      segmentId,
+      speaker,
+      status: 'PARSE_FAILURE',
+      parseErrors: result.errors,
+      verdict: VerdictType.UNVERIFIABLE,
+      confidence: 0,
+      explanation: "Não foi possível ler a resposta da IA após novas tentativas.",
+      sources: [],
+      sentimentScore: 0,
+      logicalFallacies: [],
+      context: contextHistory,
+      tokenUsage: usage
+    };
+  }
+
+  const data = result.value;
+
+  // Mescla fontes encontradas pelo Google Search (grounding) com as do JSON
+  const googleSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.map((chunk: any) => chunk.web)
+    .filter((web: any) => web && web.uri && web.title) || [];
+
+  const webSources = googleSources.length > 0 ? googleSources : data.sources;
+  // Acervo interno primeiro: é o que o card e as exportações mostram no topo
+  const finalSources = [...resolveEvidenceSources(data, evidence), ...webSources];
+
+  return {
+    segmentId,
+    speaker,
+    status: 'DONE',
+    verdict: data.verdict,
+    confidence: data.confidence,
+    explanation: data.explanation,
+    counterEvidence: data.counterEvidence,
+    sources: finalSources,
+    sentimentScore: data.sentimentScore,
+    logicalFallacies: data.logicalFallacies,
+    priorStatements: priorStatements.length ? priorStatements : undefined,
+    contradiction: resolveContradiction(data, priorStatements),
+    context: contextHistory,
+    tokenUsage: usage
+  };
+}
+
+// --- TRANSCRIÇÃO AO VIVO ---
+// Token de uso único para abrir uma conexão ao vivo direto do navegador.
+// Modelo e instruções ficam travados no token: o cliente não consegue trocá-los.
+export async function createLiveToken(participants: Participant[], language: Language): Promise<{ token: string; model: string; expiresAt: string }> {
+  const ai = getGenAI();
+  const now = Date.now();
+  const expiresAt = new Date(now + LIVE_TOKEN_TTL_MS).toISOString();
+
+  const authToken = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + LIVE_TOKEN_START_WINDOW_MS).toISOString(),
+      liveConnectConstraints: {
+        model: LIVE_MODEL_NAME,
+        config: {
+          responseModalities: [Modality.TEXT],
+          inputAudioTranscription: {},
+          systemInstruction: {
+            parts: [{ text: buildTranscriberInstruction(participants, language) }]
+          },
+        }
+      },
+      httpOptions: { apiVersion: 'v1alpha' }
+    }
+  });
+  if (!authToken.name) throw new Error("Token efêmero não foi emitido");
+
+  return { token: authToken.name, model: LIVE_MODEL_NAME, expiresAt };
+}
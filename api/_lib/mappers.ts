@@ -0,0 +1,150 @@
+import type { Document } from 'mongodb';
+import { DEFAULT_LANGUAGE, VerdictType } from '../../types.js';
+import type { Account, AnalysisResult, ApiTokenInfo, CorpusDocument, DebateSegment, EvidenceChunk, PriorStatement, SessionSummary, UsageBucket, UsageTotals } from '../../types.js';
+
+// Converte documentos do Mongo (snake_case) nos tipos usados pelo cliente
+
+export function toSessionSummary(
+  doc: Document,
+  counts: { segments?: number; analyses?: number } = {}
+): SessionSummary {
+  return {
+    sessionId: doc.session_id,
+    status: doc.status || 'active',
+    startedAt: doc.started_at,
+    endedAt: doc.ended_at,
+    participants: doc.participants || [],
+    language: doc.language || DEFAULT_LANGUAGE,
+    segmentCount: counts.segments || 0,
+    analysisCount: counts.analyses || 0,
+  };
+}
+
+export function toDebateSegment(doc: Document): DebateSegment {
+  return {
+    id: doc.segment_id,
+    speaker: doc.speaker || 'DEBATE',
+    text: doc.text_content,
+    timestamp: new Date(doc.spoken_at || doc.created_at).getTime(),
+    mediaTime: doc.media_time ?? undefined,
+    audioGapMs: doc.audio_gap_ms ?? undefined,
+    claims: doc.claims || [],
+    originalText: doc.original_text || undefined,
+    editedAt: doc.edited_at ? new Date(doc.edited_at).getTime() : undefined,
+  };
+}
+
+// raw_response guarda o AnalysisResult original; campos corrigidos depois (orador) têm precedência
+export function toAnalysisResult(doc: Document): AnalysisResult {
+  const raw = doc.raw_response || {};
+  return {
+    ...raw,
+    segmentId: doc.segment_id,
+    parentSegmentId: doc.parent_segment_id || raw.parentSegmentId,
+    speaker: doc.speaker || raw.speaker,
+    status: doc.status || raw.status || 'DONE',
+    verdict: doc.verdict || raw.verdict,
+    confidence: doc.confidence ?? raw.confidence ?? 0,
+    explanation: doc.explanation ?? raw.explanation ?? '',
+    sources: doc.sources_override || raw.sources || [],
+    sentimentScore: raw.sentimentScore || 0,
+    logicalFallacies: raw.logicalFallacies || [],
+    context: [doc.claim_text || raw.context?.[0] || ''],
+    timestamp: raw.timestamp || new Date(doc.created_at).getTime(),
+    review: doc.review || raw.review,
+    superseded: doc.superseded || undefined,
+  };
+}
+
+// Feed público (página do público e overlay): sem o nome do editor nem a nota interna.
+// Sinalizadas chegam só como aviso de retirada, para sumirem de quem já as exibia.
+export function toPublicAnalysisResult(doc: Document): AnalysisResult {
+  const analysis = toAnalysisResult(doc);
+  if (!analysis.review) return analysis;
+  const review = { status: analysis.review.status, editor: '', reviewedAt: analysis.review.reviewedAt };
+  if (review.status !== 'FLAGGED') {
+    return { ...analysis, review: { ...review, originalVerdict: analysis.review.originalVerdict } };
+  }
+  return {
+    segmentId: analysis.segmentId,
+    parentSegmentId: analysis.parentSegmentId,
+    status: analysis.status,
+    timestamp: analysis.timestamp,
+    review,
+    verdict: VerdictType.UNVERIFIABLE,
+    confidence: 0,
+    explanation: '',
+    sources: [],
+    sentimentScore: 0,
+    logicalFallacies: [],
+    context: [],
+  };
+}
+
+// Afirmação de analysis_logs com o horário da fala de origem, se o segmento foi gravado
+export function toPriorStatement(doc: Document, segment?: Document): PriorStatement {
+  return {
+    segmentId: doc.segment_id,
+    sessionId: doc.session_id,
+    text: doc.claim_text,
+    verdict: doc.verdict,
+    spokenAt: new Date(segment?.spoken_at || segment?.created_at || doc.created_at).getTime(),
+  };
+}
+
+export function toCorpusDocument(doc: Document): CorpusDocument {
+  return {
+    id: doc.document_id,
+    title: doc.title,
+    uri: doc.uri || undefined,
+    language: doc.language || DEFAULT_LANGUAGE,
+    chunkCount: doc.chunk_count || 0,
+    createdAt: doc.created_at,
+  };
+}
+
+// score vem do $meta textScore da busca
+export function toEvidenceChunk(doc: Document): EvidenceChunk {
+  return {
+    id: doc.chunk_id,
+    documentId: doc.document_id,
+    title: doc.title,
+    uri: doc.uri || undefined,
+    content: doc.content,
+    score: doc.score || 0,
+  };
+}
+
+export function toAccount(user: Document, org: Document | null): Account {
+  return {
+    userId: user.user_id,
+    name: user.name,
+    email: user.email,
+    role: user.role === 'admin' ? 'admin' : 'member',
+    organization: { id: user.org_id, name: org?.name || '' },
+  };
+}
+
+export function toApiTokenInfo(doc: Document): ApiTokenInfo {
+  return {
+    id: doc.token_id,
+    name: doc.name,
+    createdAt: doc.created_at,
+    lastUsedAt: doc.last_used_at || undefined,
+  };
+}
+
+// Somas da agregação de ai_usage; nos grupos, _id é o dia ou o modelo
+export function toUsageTotals(doc: Document | undefined): UsageTotals {
+  return {
+    requests: doc?.requests || 0,
+    promptTokens: doc?.prompt_tokens || 0,
+    responseTokens: doc?.response_tokens || 0,
+    totalTokens: doc?.total_tokens || 0,
+    costUsd: doc?.cost_usd || 0,
+  };
+}
+
+export function toUsageBucket(doc: Document): UsageBucket {
+  return { key: String(doc._id), ...toUsageTotals(doc) };
+}
@@ -0,0 +1,131 @@
+import type { Db, Document } from 'mongodb';
+import type { AuthContext } from './auth.js';
+import type { TokenUsage } from './gemini.js';
+
+// --- QUOTAS E CONTABILIDADE DE USO DA IA ---
+// Cada chamada ao modelo reserva uma vaga nos contadores da sessão (sessions.ai_usage)
+// e depois grava o consumo em ai_usage. Limite 0 desativa a quota correspondente.
+// O custo é estimado no momento da chamada: mudar a tabela de preços não reescreve o passado.
+
+export type AiUsageKind = 'claims' | 'verify' | 'live';
+
+const limitFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const SESSION_QUOTAS = {
+  // Triagens + verificações
+  requests: limitFromEnv('SESSION_AI_REQUEST_LIMIT', 1000),
+  tokens: limitFromEnv('SESSION_AI_TOKEN_LIMIT', 0),
+  liveConnections: limitFromEnv('SESSION_LIVE_CONNECTION_LIMIT', 100),
+};
+
+export const QUOTA_EXCEEDED = 'QUOTA_EXCEEDED';
+export const BUDGET_EXCEEDED = 'BUDGET_EXCEEDED';
+
+// USD por milhão de tokens. AI_PRICE_TABLE (JSON no mesmo formato) sobrescreve ou acrescenta modelos.
+type ModelPrice = { prompt: number; response: number };
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash-exp': { prompt: 0.10, response: 0.40 },
+  'models/gemini-2.0-flash-exp': { prompt: 0.10, response: 0.40 },
+};
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  if (!process.env.AI_PRICE_TABLE) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.AI_PRICE_TABLE) };
+  } catch (e) {
+    console.warn("AI_PRICE_TABLE inválida, usando preços padrão", e);
+    return DEFAULT_PRICES;
+  }
+}
+
+const PRICE_TABLE = loadPriceTable();
+
+// Modelo fora da tabela custa 0: o painel mostra os tokens mesmo sem preço
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = PRICE_TABLE[model];
+  if (!price) return 0;
+  return (usage.promptTokens * (Number(price.prompt) || 0) + usage.responseTokens * (Number(price.response) || 0)) / 1_000_000;
+}
+
+// Teto padrão para sessões sem teto próprio (SESSION_BUDGET_USD, vazio ou 0 = sem teto).
+// budget_usd: null na sessão significa que o teto foi removido de propósito.
+const DEFAULT_SESSION_BUDGET = limitFromEnv('SESSION_BUDGET_USD', 0) || null;
+
+export function sessionBudget(session: Document): number | null {
+  return session.budget_usd !== undefined ? session.budget_usd : DEFAULT_SESSION_BUDGET;
+}
+
+export function isOverBudget(session: Document): boolean {
+  const budget = sessionBudget(session);
+  return budget !== null && (session.ai_usage?.cost_usd || 0) >= budget;
+}
+
+// Reserva atômica: o incremento só acontece se a sessão ainda estiver abaixo dos limites.
+// "$not: {$gte}" também aceita sessões sem contador (campo ausente).
+export async function reserveQuota(db: Db, sessionId: string, kind: AiUsageKind): Promise<boolean> {
+  const counter = kind === 'live' ? 'ai_usage.live_connections' : 'ai_usage.requests';
+  const limit = kind === 'live' ? SESSION_QUOTAS.liveConnections : SESSION_QUOTAS.requests;
+
+  const filter: Document = { session_id: sessionId };
+  if (limit > 0) filter[counter] = { $not: { $gte: limit } };
+  if (kind !== 'live' && SESSION_QUOTAS.tokens > 0) filter['ai_usage.total_tokens'] = { $not: { $gte: SESSION_QUOTAS.tokens } };
+
+  const result = await db.collection('sessions').updateOne(filter, { $inc: { [counter]: 1 } });
+  return result.modifiedCount === 1;
+}
+
+export async function recordUsage(
+  db: Db,
+  auth: AuthContext,
+  sessionId: string,
+  kind: AiUsageKind,
+  model: string,
+  usage: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 },
+  // Relatórios de consumo da transcrição ao vivo não são chamadas novas
+  requests = 1
+) {
+  const costUsd = estimateCost(model, usage);
+  await Promise.all([
+    db.collection('ai_usage').insertOne({
+      session_id: sessionId,
+      org_id: auth.orgId,
+      user_id: auth.userId,
+      kind,
+      model,
+      requests,
+      prompt_tokens: usage.promptTokens,
+      response_tokens: usage.responseTokens,
+      total_tokens: usage.totalTokens,
+      cost_usd: costUsd,
+      created_at: new Date()
+    }),
+    db.collection('sessions').updateOne(
+      { session_id: sessionId },
+      {
+        $inc: {
+          'ai_usage.prompt_tokens': usage.promptTokens,
+          'ai_usage.response_tokens': usage.responseTokens,
+          'ai_usage.total_tokens': usage.totalTokens,
+          'ai_usage.cost_usd': costUsd
+        }
+      }
+    )
+  ]);
+}
+
+export function quotaExceededResponse(kind: AiUsageKind) {
+  return {
+    error: kind === 'live'
+      ? "Limite de conexões ao vivo desta sessão atingido"
+      : "Limite de uso de IA desta sessão atingido",
+    code: QUOTA_EXCEEDED
+  };
+}
+
+export function budgetExceededResponse() {
+  return { error: "Orçamento de IA desta sessão esgotado", code: BUDGET_EXCEEDED };
+}
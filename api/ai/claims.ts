@@ -0,0 +1,58 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { emptyTokenUsage, extractClaims, limitContextHistory, limitSpeaker, MAX_STATEMENT_CHARS, MODEL_NAME } from '../_lib/gemini.js';
+import { budgetExceededResponse, isOverBudget, quotaExceededResponse, recordUsage, reserveQuota } from '../_lib/usage.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
+import type { Claim } from '../../types.js';
+
+// Tentativas de correção do JSON podem somar várias chamadas ao modelo
+export const config = { maxDuration: 60 };
+
+// POST: triagem de um segmento em afirmações verificáveis
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, text, speaker, contextHistory, language } = req.body;
+    if (!sessionId || typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({ error: "sessionId e text são obrigatórios" });
+    }
+    if (text.length > MAX_STATEMENT_CHARS) {
+        return res.status(400).json({ error: `text excede ${MAX_STATEMENT_CHARS} caracteres` });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+    if (isOverBudget(session)) return res.status(403).json(budgetExceededResponse());
+    if (!await reserveQuota(db, sessionId, 'claims')) return res.status(403).json(quotaExceededResponse('claims'));
+
+    const usage = emptyTokenUsage();
+    let claims: Omit<Claim, 'id'>[];
+    try {
+        ({ claims } = await extractClaims(
+            text,
+            limitSpeaker(speaker),
+            limitContextHistory(contextHistory),
+            LANGUAGES.includes(language) ? language : DEFAULT_LANGUAGE,
+            // Correções do JSON são chamadas ao modelo como as outras
+            () => reserveQuota(db, sessionId, 'claims'),
+            usage
+        ));
+    } finally {
+        // Tentativas anteriores a uma falha (ou a uma triagem inválida) também consumiram tokens
+        await recordUsage(db, auth, sessionId, 'claims', MODEL_NAME, usage);
+    }
+
+    return res.status(200).json({ claims, tokenUsage: usage });
+  } catch (error: any) {
+    // 429 do modelo segue como 429: a fila do cliente pausa e tenta de novo
+    console.error('AI Error:', error);
+    return res.status(error?.status === 429 ? 429 : 500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { newId, requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { createLiveToken, LIVE_MODEL_NAME } from '../_lib/gemini.js';
+import { quotaExceededResponse, recordUsage, reserveQuota } from '../_lib/usage.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
+
+// POST: token efêmero para uma conexão ao vivo. Cada (re)conexão pede um novo.
+// Participantes e idioma vêm da sessão gravada em /api/logs/session, não do pedido.
+// O grantId devolvido junto identifica a conexão nos relatórios de consumo (/api/ai/live-usage).
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId } = req.body;
+    if (!sessionId) return res.status(400).json({ error: "sessionId required" });
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+    if (!await reserveQuota(db, sessionId, 'live')) return res.status(403).json(quotaExceededResponse('live'));
+
+    const liveToken = await createLiveToken(
+        Array.isArray(session.participants) ? session.participants : [],
+        LANGUAGES.includes(session.language) ? session.language : DEFAULT_LANGUAGE
+    );
+    const grantId = newId();
+    await db.collection('live_grants').insertOne({
+        grant_id: grantId,
+        session_id: sessionId,
+        org_id: auth.orgId,
+        user_id: auth.userId,
+        issued_at: new Date(),
+        expires_at: new Date(liveToken.expiresAt),
+        reported_tokens: 0
+    });
+    await recordUsage(db, auth, sessionId, 'live', LIVE_MODEL_NAME);
+
+    return res.status(200).json({ ...liveToken, grantId });
+  } catch (error: any) {
+    console.error('AI Error:', error);
+    return res.status(error?.status === 429 ? 429 : 500).json({ error: error.message });
+  }
+}
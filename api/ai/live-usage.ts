@@ -0,0 +1,69 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { LIVE_MODEL_NAME } from '../_lib/gemini.js';
+import { recordUsage } from '../_lib/usage.js';
+
+// Teto de sanidade por relatório (o cliente relata a cada 30 s)
+const MAX_REPORTED_TOKENS = 10_000_000;
+// Áudio de entrada custa ~32 tokens/s; a folga cobre o texto devolvido pelo modelo
+const MAX_LIVE_TOKENS_PER_SECOND = 100;
+// O relatório final chega depois que a conexão fecha
+const REPORT_GRACE_MS = 10 * 60 * 1000;
+
+const isTokenCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_REPORTED_TOKENS;
+
+// POST { sessionId, grantId, usage }: consumo da transcrição ao vivo. A conexão usa o token efêmero direto
+// no Gemini, então é o cliente que relata o usageMetadata recebido, em lotes, por conexão (grantId de
+// /api/ai/live-token). Entra em ai_usage e no custo da sessão (teto de gasto), sem contar como requisição.
+// O servidor só confere se o relato é de uma conexão emitida para esta sessão e usuário e se cabe no
+// ritmo possível de uma conexão; um cliente que relata menos não é detectado: para a transcrição ao vivo
+// o teto de gasto é só indicativo.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, grantId, usage } = req.body;
+    if (!sessionId || typeof grantId !== 'string') return res.status(400).json({ error: "sessionId e grantId são obrigatórios" });
+    if (!isTokenCount(usage?.promptTokens) || !isTokenCount(usage?.responseTokens) || !isTokenCount(usage?.totalTokens)) {
+        return res.status(400).json({ error: "usage inválido" });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
+
+    const grants = db.collection('live_grants');
+    const grant = await grants.findOne({ grant_id: grantId, session_id: sessionId, user_id: auth.userId });
+    if (!grant) return res.status(404).json({ error: "Conexão ao vivo não encontrada" });
+
+    const now = Date.now();
+    const expiresAt = new Date(grant.expires_at).getTime();
+    if (now > expiresAt + REPORT_GRACE_MS) return res.status(410).json({ error: "Conexão ao vivo expirada" });
+
+    // Soma atômica: o total relatado da conexão não passa do que ela poderia ter consumido até agora
+    const elapsedSeconds = Math.ceil((Math.min(now, expiresAt) - new Date(grant.issued_at).getTime()) / 1000);
+    const allowance = Math.max(0, elapsedSeconds) * MAX_LIVE_TOKENS_PER_SECOND;
+    const accepted = await grants.updateOne(
+        { _id: grant._id, reported_tokens: { $lte: allowance - usage.totalTokens } },
+        { $inc: { reported_tokens: usage.totalTokens } }
+    );
+    if (accepted.matchedCount === 0) {
+        return res.status(422).json({ error: "Consumo relatado acima do possível para a conexão" });
+    }
+
+    await recordUsage(db, auth, sessionId, 'live', LIVE_MODEL_NAME, {
+        promptTokens: usage.promptTokens,
+        responseTokens: usage.responseTokens,
+        totalTokens: usage.totalTokens
+    }, 0);
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
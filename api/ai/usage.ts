@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Db, Document } from 'mongodb';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { AuthContext, requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { toUsageBucket, toUsageTotals } from '../_lib/mappers.js';
+import { isOverBudget, sessionBudget } from '../_lib/usage.js';
+import type { SessionUsage } from '../../types.js';
+
+const USAGE_SUMS = {
+  // Registros anteriores ao campo requests contam como uma chamada
+  requests: { $sum: { $ifNull: ['$requests', 1] } },
+  prompt_tokens: { $sum: '$prompt_tokens' },
+  response_tokens: { $sum: '$response_tokens' },
+  total_tokens: { $sum: '$total_tokens' },
+  cost_usd: { $sum: '$cost_usd' }
+};
+
+// GET ?sessionId=...: consumo da sessão (total, por dia e por modelo)
+// POST { sessionId, budgetUsd }: define o teto de gasto da sessão (null remove)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET,POST')) return;
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const sessionId = req.method === 'GET' ? req.query.sessionId : req.body?.sessionId;
+    if (!sessionId || typeof sessionId !== 'string') return res.status(400).json({ error: "sessionId required" });
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    let session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+
+    if (req.method === 'POST') {
+        const { budgetUsd } = req.body;
+        if (budgetUsd !== null && !(typeof budgetUsd === 'number' && Number.isFinite(budgetUsd) && budgetUsd >= 0)) {
+            return res.status(400).json({ error: "budgetUsd deve ser um número >= 0 ou null" });
+        }
+        await db.collection('sessions').updateOne({ session_id: sessionId }, { $set: { budget_usd: budgetUsd } });
+        session = { ...session, budget_usd: budgetUsd };
+    }
+
+    return res.status(200).json(await buildUsageReport(db, auth, session));
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
+
+async function buildUsageReport(db: Db, auth: AuthContext, session: Document): Promise<SessionUsage> {
+  const [facets] = await db.collection('ai_usage').aggregate([
+    { $match: { session_id: session.session_id, org_id: auth.orgId } },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, ...USAGE_SUMS } }],
+        byDay: [
+          { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$created_at' } }, ...USAGE_SUMS } },
+          { $sort: { _id: 1 } }
+        ],
+        byModel: [
+          { $group: { _id: '$model', ...USAGE_SUMS } },
+          { $sort: { total_tokens: -1 } }
+        ]
+      }
+    }
+  ]).toArray();
+
+  return {
+    sessionId: session.session_id,
+    totals: toUsageTotals(facets?.totals[0]),
+    byDay: (facets?.byDay || []).map(toUsageBucket),
+    byModel: (facets?.byModel || []).map(toUsageBucket),
+    budgetUsd: sessionBudget(session),
+    overBudget: isOverBudget(session)
+  };
+}
@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { analyzeStatement, emptyTokenUsage, limitContextHistory, limitSpeaker, limitVerificationContext, MAX_STATEMENT_CHARS, MODEL_NAME } from '../_lib/gemini.js';
+import { budgetExceededResponse, isOverBudget, quotaExceededResponse, recordUsage, reserveQuota } from '../_lib/usage.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
+import type { AnalysisResult } from '../../types.js';
+
+// Busca na web + tentativas de correção do JSON
+export const config = { maxDuration: 60 };
+
+// POST: verificação de uma afirmação (histórico do orador e acervo vêm do cliente)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, segmentId, text, speaker, contextHistory, language, verification } = req.body;
+    if (!sessionId || !segmentId || typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({ error: "sessionId, segmentId e text são obrigatórios" });
+    }
+    if (text.length > MAX_STATEMENT_CHARS) {
+        return res.status(400).json({ error: `text excede ${MAX_STATEMENT_CHARS} caracteres` });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+    if (isOverBudget(session)) return res.status(403).json(budgetExceededResponse());
+    if (!await reserveQuota(db, sessionId, 'verify')) return res.status(403).json(quotaExceededResponse('verify'));
+
+    const usage = emptyTokenUsage();
+    let result: AnalysisResult;
+    try {
+        result = await analyzeStatement(
+            text,
+            segmentId,
+            limitContextHistory(contextHistory),
+            limitSpeaker(speaker),
+            LANGUAGES.includes(language) ? language : DEFAULT_LANGUAGE,
+            limitVerificationContext(verification),
+            // Correções do JSON são chamadas ao modelo como as outras
+            () => reserveQuota(db, sessionId, 'verify'),
+            usage
+        );
+    } finally {
+        // Tentativas anteriores a uma falha também consumiram tokens
+        await recordUsage(db, auth, sessionId, 'verify', MODEL_NAME, usage);
+    }
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    // 429 do modelo segue como 429: a fila do cliente pausa e tenta de novo
+    console.error('AI Error:', error);
+    return res.status(error?.status === 429 ? 429 : 500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { issueToken, verifyPassword } from '../_lib/auth.js';
+import { toAccount } from '../_lib/mappers.js';
+
+// E-mail e senha => token de login (expira em 30 dias)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { email, password } = req.body || {};
+    if (typeof email !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: email.trim().toLowerCase(), disabled: { $ne: true } });
+    // Mesma resposta para e-mail inexistente e senha errada
+    if (!user || !verifyPassword(password, user.password_hash)) {
+        return res.status(401).json({ error: "E-mail ou senha inválidos" });
+    }
+
+    const org = await db.collection('organizations').findOne({ org_id: user.org_id });
+    const { token } = await issueToken(db, user, 'login');
+    return res.status(200).json({ token, account: toAccount(user, org) });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
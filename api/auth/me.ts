@@ -0,0 +1,30 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, revokeRequestToken } from '../_lib/auth.js';
+import { toAccount } from '../_lib/mappers.js';
+
+// GET: conta do token atual. DELETE: logout (revoga o token usado na requisição)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET,DELETE')) return;
+  if (req.method !== 'GET' && req.method !== 'DELETE') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+
+    if (req.method === 'DELETE') {
+        await revokeRequestToken(req, db);
+        return res.status(200).json({ success: true });
+    }
+
+    const [user, org] = await Promise.all([
+        db.collection('users').findOne({ user_id: auth.userId }),
+        db.collection('organizations').findOne({ org_id: auth.orgId })
+    ]);
+    return res.status(200).json({ account: toAccount(user!, org) });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,78 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { hashPassword, isFilledString, MIN_PASSWORD_LENGTH, issueToken, newId } from '../_lib/auth.js';
+import { toAccount } from '../_lib/mappers.js';
+
+// Cria uma organização com o primeiro usuário (admin). Liberado para o primeiro cadastro
+// da instalação; depois disso só com REGISTRATION_OPEN=true.
+
+// Marcador único (_id fixo) que decide, de forma atômica, qual cadastro é o primeiro da instalação
+const FIRST_REGISTRATION_ID = 'first_registration';
+
+interface InstallMarker {
+    _id: string;
+    claimed_at: Date;
+}
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { organization, name, email, password } = req.body || {};
+    if (!isFilledString(organization) || !isFilledString(name) || !isFilledString(email) || typeof password !== 'string') {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `A senha precisa de ao menos ${MIN_PASSWORD_LENGTH} caracteres` });
+    }
+
+    const { db } = await connectToDatabase();
+    const users = db.collection('users');
+
+    const markers = db.collection<InstallMarker>('install_markers');
+
+    // Dois cadastros simultâneos numa instalação vazia: só um insere o marcador
+    let claimedFirst = false;
+    if (await users.estimatedDocumentCount() === 0) {
+        const claim = await markers.updateOne(
+            { _id: FIRST_REGISTRATION_ID },
+            { $setOnInsert: { claimed_at: new Date() } },
+            { upsert: true }
+        );
+        claimedFirst = claim.upsertedCount === 1;
+    }
+    if (!claimedFirst && process.env.REGISTRATION_OPEN !== 'true') {
+        return res.status(403).json({ error: "Cadastro fechado; peça acesso a um administrador" });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (await users.findOne({ email: normalizedEmail })) {
+        return res.status(409).json({ error: "E-mail já cadastrado" });
+    }
+
+    const org = { org_id: newId(), name: organization.trim(), created_at: new Date() };
+    const user = {
+        user_id: newId(),
+        org_id: org.org_id,
+        name: name.trim(),
+        email: normalizedEmail,
+        role: 'admin',
+        password_hash: hashPassword(password),
+        created_at: new Date()
+    };
+    try {
+        await db.collection('organizations').insertOne(org);
+        await users.insertOne(user);
+    } catch (error) {
+        // Libera o marcador para que a instalação não fique sem o primeiro admin
+        if (claimedFirst) await markers.deleteOne({ _id: FIRST_REGISTRATION_ID });
+        throw error;
+    }
+
+    const { token } = await issueToken(db, user, 'login');
+    return res.status(200).json({ token, account: toAccount(user, org) });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
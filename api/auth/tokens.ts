@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { issueToken, requireAuth } from '../_lib/auth.js';
+import { toApiTokenInfo } from '../_lib/mappers.js';
+
+// Tokens de integração do usuário (scripts, OBS, outras redações):
+// GET lista, POST cria (o valor só aparece nesta resposta), DELETE ?id= revoga
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET,POST,DELETE')) return;
+
+  try {
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const tokens = db.collection('api_tokens');
+
+    if (req.method === 'GET') {
+        const docs = await tokens
+            .find({ user_id: auth.userId, kind: 'api', revoked_at: null })
+            .sort({ created_at: -1 })
+            .toArray();
+        return res.status(200).json({ tokens: docs.map(toApiTokenInfo) });
+    }
+
+    if (req.method === 'POST') {
+        const name = String(req.body?.name || '').trim();
+        if (!name) return res.status(400).json({ error: "name obrigatório" });
+        const user = await db.collection('users').findOne({ user_id: auth.userId });
+        const { token, tokenId } = await issueToken(db, user!, 'api', name);
+        const created = await tokens.findOne({ token_id: tokenId });
+        return res.status(200).json({ token, info: toApiTokenInfo(created!) });
+    }
+
+    if (req.method === 'DELETE') {
+        const tokenId = req.query.id ? String(req.query.id) : '';
+        if (!tokenId) return res.status(400).json({ error: "id obrigatório" });
+        await tokens.updateOne({ token_id: tokenId, user_id: auth.userId }, { $set: { revoked_at: new Date() } });
+        return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { hashPassword, isFilledString, MIN_PASSWORD_LENGTH, newId, requireAuth } from '../_lib/auth.js';
+import { toAccount } from '../_lib/mappers.js';
+
+// Membros da organização: GET lista, POST (somente admin) cadastra um novo usuário
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET,POST')) return;
+
+  try {
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+
+    const users = db.collection('users');
+    const org = await db.collection('organizations').findOne({ org_id: auth.orgId });
+
+    if (req.method === 'GET') {
+        const docs = await users.find({ org_id: auth.orgId, disabled: { $ne: true } }).sort({ created_at: 1 }).toArray();
+        return res.status(200).json({ users: docs.map(doc => toAccount(doc, org)) });
+    }
+
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+    if (auth.role !== 'admin') return res.status(403).json({ error: "Somente administradores cadastram usuários" });
+
+    const { name, email, password, role } = req.body || {};
+    if (!isFilledString(name) || !isFilledString(email) || typeof password !== 'string') {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `A senha precisa de ao menos ${MIN_PASSWORD_LENGTH} caracteres` });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (await users.findOne({ email: normalizedEmail })) {
+        return res.status(409).json({ error: "E-mail já cadastrado" });
+    }
+
+    const user = {
+        user_id: newId(),
+        org_id: auth.orgId,
+        name: name.trim(),
+        email: normalizedEmail,
+        role: role === 'admin' ? 'admin' : 'member',
+        password_hash: hashPassword(password),
+        created_at: new Date()
+    };
+    await users.insertOne(user);
+    return res.status(200).json({ user: toAccount(user, org) });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth } from '../_lib/auth.js';
+import { chunkDocument, ensureCorpusIndexes, TEXT_SEARCH_LANGUAGES } from '../_lib/corpus.js';
+import { toCorpusDocument } from '../_lib/mappers.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
+import type { Language } from '../../types.js';
+
+// Corpo JSON da Vercel é limitado a ~4,5 MB; o texto extraído cabe com folga
+const MAX_CONTENT_CHARS = 2_000_000;
+
+// Acervo interno da organização: GET lista, POST ingere um documento em texto, DELETE remove (com os trechos)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET,POST,DELETE')) return;
+
+  try {
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const documents = db.collection('corpus_documents');
+    const chunks = db.collection('corpus_chunks');
+
+    if (req.method === 'GET') {
+        const docs = await documents.find({ org_id: auth.orgId }).sort({ created_at: -1 }).toArray();
+        return res.status(200).json({ documents: docs.map(toCorpusDocument) });
+    }
+
+    if (req.method === 'DELETE') {
+        const documentId = req.query.id ? String(req.query.id) : '';
+        if (!documentId) return res.status(400).json({ error: "id obrigatório" });
+        await Promise.all([
+            documents.deleteOne({ document_id: documentId, org_id: auth.orgId }),
+            chunks.deleteMany({ document_id: documentId, org_id: auth.orgId })
+        ]);
+        return res.status(200).json({ success: true });
+    }
+
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    const { title, uri, content } = req.body || {};
+    if (typeof title !== 'string' || !title.trim() || typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: "title e content são obrigatórios" });
+    }
+    if (content.length > MAX_CONTENT_CHARS) {
+        return res.status(413).json({ error: "Documento grande demais; divida em partes menores" });
+    }
+    if (uri && !/^https?:\/\//i.test(String(uri))) {
+        return res.status(400).json({ error: "uri deve ser http(s)" });
+    }
+    const language: Language = LANGUAGES.includes(req.body.language) ? req.body.language : DEFAULT_LANGUAGE;
+
+    const pieces = chunkDocument(content);
+    if (pieces.length === 0) return res.status(400).json({ error: "Documento sem texto" });
+
+    await ensureCorpusIndexes(db);
+
+    const documentId = randomUUID();
+    const now = new Date();
+    const documentDoc = {
+        document_id: documentId,
+        org_id: auth.orgId,
+        user_id: auth.userId,
+        title: title.trim(),
+        uri: uri || null,
+        language,
+        chunk_count: pieces.length,
+        created_at: now
+    };
+
+    await chunks.insertMany(pieces.map((piece, index) => ({
+        chunk_id: `${documentId}:${index}`,
+        document_id: documentId,
+        org_id: auth.orgId,
+        position: index,
+        title: documentDoc.title,
+        uri: documentDoc.uri,
+        content: piece,
+        text_language: TEXT_SEARCH_LANGUAGES[language],
+        created_at: now
+    })));
+    await documents.insertOne(documentDoc);
+
+    return res.status(200).json({ document: toCorpusDocument(documentDoc) });
+  } catch (error: any) {
+    console.error('Mongo Error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth } from '../_lib/auth.js';
+import { ensureCorpusIndexes, TEXT_SEARCH_LANGUAGES } from '../_lib/corpus.js';
+import { toEvidenceChunk } from '../_lib/mappers.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
+import type { Language } from '../../types.js';
+
+const MAX_LIMIT = 10;
+// Abaixo disso o trecho só compartilha palavras soltas com a afirmação
+const MIN_SCORE = 1;
+
+// Busca textual no acervo interno, consultada antes da verificação de cada afirmação
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET')) return;
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const query = String(req.query.q || '').trim();
+    if (!query) return res.status(400).json({ error: "q obrigatório" });
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || 3));
+    const language: Language = LANGUAGES.includes(req.query.language as Language)
+        ? req.query.language as Language
+        : DEFAULT_LANGUAGE;
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    await ensureCorpusIndexes(db);
+
+    const docs = await db.collection('corpus_chunks')
+        .find({ org_id: auth.orgId, $text: { $search: query, $language: TEXT_SEARCH_LANGUAGES[language] } })
+        .project({ score: { $meta: 'textScore' }, chunk_id: 1, document_id: 1, title: 1, uri: 1, content: 1 })
+        .sort({ score: { $meta: 'textScore' } })
+        .limit(limit)
+        .toArray();
+
+    return res.status(200).json({
+        evidence: docs.filter(doc => doc.score >= MIN_SCORE).map(toEvidenceChunk)
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
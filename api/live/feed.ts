@@ -0,0 +1,101 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Db, Document } from 'mongodb';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { toDebateSegment, toPublicAnalysisResult } from '../_lib/mappers.js';
+
+// Funções serverless têm duração limitada: o stream fecha sozinho e o
+// EventSource do navegador reconecta com o cursor em Last-Event-ID
+const STREAM_DURATION_MS = 25000;
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 10000;
+// Quem grava carimba updated_at antes do commit e as verificações rodam em paralelo: um documento
+// pode ficar visível depois de outro mais novo, já com o cursor à frente dele. Cada leitura volta
+// essa janela antes do cursor; o stream descarta o que já enviou e o cliente trata repetições por id.
+const FEED_OVERLAP_MS = 10000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const versionKey = (doc: Document) => `${doc._id}:${new Date(doc.updated_at).getTime()}`;
+
+// Tudo que mudou na sessão desde o cursor (inserções, correções de orador, revisões), com a janela de sobreposição
+async function fetchChanges(db: Db, sessionId: string, since: Date) {
+  const filter = { session_id: sessionId, updated_at: { $gt: new Date(since.getTime() - FEED_OVERLAP_MS) } };
+  const [segmentDocs, analysisDocs] = await Promise.all([
+    db.collection('debate_segments').find(filter).sort({ updated_at: 1 }).toArray(),
+    db.collection('analysis_logs').find(filter).sort({ updated_at: 1 }).toArray()
+  ]);
+
+  const cursor = [...segmentDocs, ...analysisDocs]
+    .reduce((latest, doc) => Math.max(latest, new Date(doc.updated_at).getTime()), since.getTime());
+
+  return { segmentDocs, analysisDocs, cursor };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Leitura pública (página do público e overlay não têm login): o acesso é o token de
+  // compartilhamento da sessão (/api/live/share), imprevisível ao contrário da sessionId
+  if (applyCors(req, res, 'GET')) return;
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  const shareToken = req.query.token;
+  if (!shareToken || typeof shareToken !== 'string') return res.status(400).json({ error: "token required" });
+
+  const lastEventId = req.headers['last-event-id'];
+  const since = new Date(Number(lastEventId || req.query.since) || 0);
+
+  try {
+    const { db } = await connectToDatabase();
+    const session = await db.collection('sessions').findOne({ share_token: shareToken }, { projection: { session_id: 1 } });
+    if (!session) return res.status(404).json({ error: "Sessão não encontrada" });
+    const sessionId: string = session.session_id;
+
+    // Fallback de polling: uma resposta JSON com as mudanças desde o cursor
+    if (req.query.mode === 'poll') {
+      const changes = await fetchChanges(db, sessionId, since);
+      return res.status(200).json({
+        segments: changes.segmentDocs.map(toDebateSegment),
+        analyses: changes.analysisDocs.map(toPublicAnalysisResult),
+        cursor: changes.cursor
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+    let closed = false;
+    req.on('close', () => { closed = true; });
+
+    let cursor = since;
+    const sent = new Set<string>();
+    let lastWrite = Date.now();
+    const deadline = Date.now() + STREAM_DURATION_MS;
+
+    while (!closed && Date.now() < deadline) {
+      const changes = await fetchChanges(db, sessionId, cursor);
+      const segmentDocs = changes.segmentDocs.filter(doc => !sent.has(versionKey(doc)));
+      const analysisDocs = changes.analysisDocs.filter(doc => !sent.has(versionKey(doc)));
+      cursor = new Date(changes.cursor);
+      if (segmentDocs.length > 0 || analysisDocs.length > 0) {
+        [...segmentDocs, ...analysisDocs].forEach(doc => sent.add(versionKey(doc)));
+        segmentDocs.forEach(doc => res.write(`id: ${changes.cursor}\nevent: segment\ndata: ${JSON.stringify(toDebateSegment(doc))}\n\n`));
+        analysisDocs.forEach(doc => res.write(`id: ${changes.cursor}\nevent: analysis\ndata: ${JSON.stringify(toPublicAnalysisResult(doc))}\n\n`));
+        lastWrite = Date.now();
+      } else if (Date.now() - lastWrite > HEARTBEAT_INTERVAL_MS) {
+        res.write(`: heartbeat\n\n`);
+        lastWrite = Date.now();
+      }
+      await wait(POLL_INTERVAL_MS);
+    }
+
+    res.end();
+  } catch (error: any) {
+    if (res.headersSent) return res.end();
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomBytes } from 'crypto';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+
+// POST { sessionId }: token de compartilhamento da sessão, criado no primeiro pedido.
+// Os links do público e do overlay levam esse token, não a sessionId: o feed não tem login
+// e a sessionId não é segredo (aparece na exportação, nos logs e no painel).
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId } = req.body;
+    if (!sessionId) return res.status(400).json({ error: "sessionId required" });
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+    if (session.share_token) return res.status(200).json({ shareToken: session.share_token });
+
+    // Dois pedidos simultâneos: só o primeiro grava, e os dois devolvem o token gravado
+    await db.collection('sessions').updateOne(
+        { session_id: sessionId, share_token: { $exists: false } },
+        { $set: { share_token: randomBytes(24).toString('base64url') } }
+    );
+    const updated = await db.collection('sessions').findOne({ session_id: sessionId }, { projection: { share_token: 1 } });
+    return res.status(200).json({ shareToken: updated?.share_token });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -1,44 +1,61 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { connectToDatabase } from '../_lib/db.js'; // Adicionado .js
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { normalizeClaim } from '../../services/claimMatching.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,POST');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (applyCors(req, res, 'POST')) return;
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
-    const { sessionId, segmentId, text, analysis } = req.body;
+    const { sessionId, segmentId, text, speaker, parentSegmentId, analysis } = req.body;
+    const speakerName = speaker || analysis?.speaker || 'DEBATE';
 
     if (!sessionId || !segmentId || !text) {
         return res.status(400).json({ error: "Dados obrigatórios faltando" });
     }
 
     const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
 
-    await db.collection('debate_segments').updateOne(
-        { segment_id: segmentId },
-        { 
-            $setOnInsert: {
-                session_id: sessionId,
-                text_content: text,
-                created_at: new Date()
-            }
-        },
-        { upsert: true }
-    );
+    // Afirmações extraídas de um segmento já têm o segmento gravado via /segment
+    if (!parentSegmentId) {
+        await db.collection('debate_segments').updateOne(
+            { segment_id: segmentId, session_id: sessionId },
+            { 
+                $setOnInsert: {
+                    session_id: sessionId,
+                    org_id: auth.orgId,
+                    speaker: speakerName,
+                    text_content: text,
+                    created_at: new Date()
+                }
+            },
+            { upsert: true }
+        );
+    }
 
     await db.collection('analysis_logs').insertOne({
         session_id: sessionId,
+        org_id: auth.orgId,
+        user_id: auth.userId,
         segment_id: segmentId,
+        parent_segment_id: parentSegmentId || null,
+        claim_text: text,
+        claim_key: normalizeClaim(text),
+        is_repeat: !!analysis?.repeatOf,
+        speaker: speakerName,
+        status: analysis?.status || 'DONE',
         verdict: analysis?.verdict || 'UNVERIFIABLE',
         confidence: analysis?.confidence || 0,
+        contradicts_segment_id: analysis?.contradiction?.segmentId || null,
         explanation: analysis?.explanation || '',
         raw_response: analysis,
-        created_at: new Date()
+        created_at: new Date(),
+        updated_at: new Date()
     });
 
     return res.status(200).json({ success: true });
@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth } from '../_lib/auth.js';
+import { toAnalysisResult } from '../_lib/mappers.js';
+import { normalizeClaim } from '../../services/claimMatching.js';
+
+const MAX_CLAIMS = 2000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET')) return;
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const limit = Math.min(Number(req.query.limit) || 500, MAX_CLAIMS);
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+
+    // Só verificações originais concluídas da organização alimentam o cache (repetições apontam para elas).
+    // Sinalizadas pelo editor ficam de fora; corrigidas entram com o veredito do editor.
+    const docs = await db.collection('analysis_logs')
+        .find({
+            org_id: auth.orgId,
+            status: 'DONE',
+            claim_key: { $exists: true, $ne: '' },
+            is_repeat: { $ne: true },
+            superseded: { $ne: true },
+            'review.status': { $ne: 'FLAGGED' }
+        })
+        .sort({ created_at: -1 })
+        .limit(limit)
+        .project({
+            claim_key: 1, claim_text: 1, session_id: 1, segment_id: 1, parent_segment_id: 1, speaker: 1, status: 1, created_at: 1,
+            raw_response: 1, verdict: 1, confidence: 1, explanation: 1, sources_override: 1, review: 1
+        })
+        .toArray();
+
+    return res.status(200).json({
+        claims: docs.map(doc => ({
+            // Recalculada: chaves gravadas antes podem usar uma normalização anterior
+            key: normalizeClaim(doc.claim_text || doc.claim_key),
+            text: doc.claim_text,
+            sessionId: doc.session_id,
+            checkedAt: doc.created_at,
+            analysis: toAnalysisResult(doc)
+        }))
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,111 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { UpdateFilter } from 'mongodb';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { VerdictType } from '../../types.js';
+import type { EditorReview, ReviewStatus, Source } from '../../types.js';
+
+const REVIEW_STATUSES = ['APPROVED', 'OVERRIDDEN', 'FLAGGED'];
+
+const isVerdict = (value: unknown): value is VerdictType =>
+    Object.values(VerdictType).includes(value as VerdictType);
+
+// Mesmo critério das fontes do modelo (analysisSchema): a página pública transforma cada uri em link.
+// Fonte do acervo interno pode vir sem uri; qualquer outra precisa de URL http(s)
+const sanitizeSources = (raw: unknown[]): Source[] =>
+    raw
+        .filter((item: any) => item && typeof item === 'object' && typeof item.title === 'string' && typeof item.uri === 'string')
+        .filter((item: any) => item.uri === '' ? item.internal === true : /^https?:\/\//i.test(item.uri))
+        .map((item: any) => item.internal === true
+            ? { title: item.title, uri: item.uri, internal: true }
+            : { title: item.title, uri: item.uri });
+
+interface ReviewHistoryEntry {
+    status: string;
+    editor: string;
+    user_id: string;
+    note: string;
+    changes: Record<string, unknown>;
+    previous: { verdict: string; explanation: string };
+    reviewed_at: Date;
+}
+
+// Só os campos que esta rota lê ou acrescenta; o resto do documento passa pelo $set
+interface AnalysisLogDocument {
+    verdict: string;
+    explanation: string;
+    review_history: ReviewHistoryEntry[];
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, segmentId, review, override } = req.body;
+    if (!sessionId || !segmentId || typeof review?.editor !== 'string' || !review.editor.trim() || !REVIEW_STATUSES.includes(review?.status)) {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+    if (review.note !== undefined && typeof review.note !== 'string') {
+        return res.status(400).json({ error: "Nota inválida" });
+    }
+    if ((override?.verdict !== undefined && !isVerdict(override.verdict)) ||
+        (review.originalVerdict !== undefined && !isVerdict(review.originalVerdict))) {
+        return res.status(400).json({ error: "Veredito inválido" });
+    }
+    if (override?.sources !== undefined && !Array.isArray(override.sources)) {
+        return res.status(400).json({ error: "Fontes inválidas" });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
+    const logs = db.collection<AnalysisLogDocument>('analysis_logs');
+
+    const current = await logs.findOne({ session_id: sessionId, segment_id: segmentId }, { sort: { created_at: -1 } });
+    if (!current) return res.status(404).json({ error: "Análise não encontrada" });
+
+    const reviewedAt = new Date();
+    // Só os campos conhecidos da revisão vão para o documento
+    const storedReview: EditorReview = {
+        status: review.status as ReviewStatus,
+        editor: review.editor.trim(),
+        reviewedAt: reviewedAt.getTime(),
+        ...(review.note ? { note: review.note } : {}),
+        ...(review.originalVerdict ? { originalVerdict: review.originalVerdict } : {})
+    };
+    const changes: Record<string, unknown> = {};
+    if (review.status === 'OVERRIDDEN' && override) {
+        if (override.verdict) changes.verdict = override.verdict;
+        if (typeof override.explanation === 'string') changes.explanation = override.explanation;
+        if (Array.isArray(override.sources)) changes.sources_override = sanitizeSources(override.sources);
+    }
+
+    // raw_response nunca é alterado: guarda a saída original do modelo
+    const update: UpdateFilter<AnalysisLogDocument> = {
+        $set: {
+            ...changes,
+            updated_at: reviewedAt,
+            review: storedReview
+        },
+        $push: {
+            review_history: {
+                status: storedReview.status,
+                editor: storedReview.editor,
+                user_id: auth.userId,
+                note: storedReview.note || '',
+                changes,
+                previous: { verdict: current.verdict, explanation: current.explanation },
+                reviewed_at: reviewedAt
+            }
+        }
+    };
+    await logs.updateOne({ _id: current._id }, update);
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
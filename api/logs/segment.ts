@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, segment } = req.body;
+    // Entradas só com o marcador de lacuna de áudio não têm texto
+    const isGapMarker = typeof segment?.audioGapMs === 'number' && segment.audioGapMs > 0;
+    if (!sessionId || !segment?.id || (!segment?.text && !isGapMarker)) {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
+
+    await db.collection('debate_segments').updateOne(
+        { segment_id: segment.id, session_id: sessionId },
+        {
+            $set: {
+                session_id: sessionId,
+                org_id: auth.orgId,
+                speaker: segment.speaker || 'DEBATE',
+                text_content: segment.text || '',
+                spoken_at: new Date(segment.timestamp || Date.now()),
+                media_time: typeof segment.mediaTime === 'number' ? segment.mediaTime : null,
+                audio_gap_ms: typeof segment.audioGapMs === 'number' ? segment.audioGapMs : null,
+                claims: Array.isArray(segment.claims) ? segment.claims : [],
+                original_text: segment.originalText || null,
+                edited_at: segment.editedAt ? new Date(segment.editedAt) : null,
+                updated_at: new Date()
+            },
+            $setOnInsert: { created_at: new Date() }
+        },
+        { upsert: true }
+    );
+
+    // Transcrição corrigida: verificações das afirmações antigas deixam de valer
+    if (segment.editedAt) {
+        const currentClaimIds = (Array.isArray(segment.claims) ? segment.claims : []).map((c: any) => c.id);
+        await db.collection('analysis_logs').updateMany(
+            { session_id: sessionId, parent_segment_id: segment.id, segment_id: { $nin: currentClaimIds } },
+            { $set: { superseded: true, updated_at: new Date() } }
+        );
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -1,33 +1,84 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { connectToDatabase } from '../_lib/db.js'; // Adicionado .js
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+import { toAnalysisResult, toDebateSegment, toSessionSummary } from '../_lib/mappers.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../../types.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (applyCors(req, res, 'GET,POST')) return;
+  if (req.method === 'GET') return getSession(req, res);
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
-    const { sessionId } = req.body;
+    const { sessionId, participants, language } = req.body;
     if (!sessionId) return res.status(400).json({ error: "sessionId required" });
 
     const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
 
-    await db.collection('sessions').insertOne({
-        session_id: sessionId,
-        started_at: new Date(),
-        status: 'active',
-        metadata: {
-            user_agent: req.headers['user-agent'],
-            ip: req.headers['x-forwarded-for']
-        }
-    });
+    // Sessões sem dono (anteriores à autenticação) também ficam bloqueadas
+    const existing = await db.collection('sessions').findOne({ session_id: sessionId });
+    if (existing && existing.org_id !== auth.orgId) {
+        return res.status(403).json({ error: "Sessão pertence a outra organização" });
+    }
+
+    // Retomar uma sessão existente reativa o registro em vez de duplicá-lo
+    await db.collection('sessions').updateOne(
+        { session_id: sessionId },
+        {
+            $set: {
+                status: 'active',
+                participants: Array.isArray(participants) ? participants : [],
+                language: LANGUAGES.includes(language) ? language : DEFAULT_LANGUAGE
+            },
+            $setOnInsert: {
+                org_id: auth.orgId,
+                owner_user_id: auth.userId,
+                started_at: new Date(),
+                metadata: {
+                    user_agent: req.headers['user-agent'],
+                    ip: req.headers['x-forwarded-for']
+                }
+            }
+        },
+        { upsert: true }
+    );
 
     return res.status(200).json({ success: true });
   } catch (error: any) {
     return res.status(500).json({ error: error.message });
   }
-}
\ No newline at end of file
+}
+
+// GET ?sessionId=...: sessão com segmentos e a análise mais recente de cada afirmação
+async function getSession(req: VercelRequest, res: VercelResponse) {
+  try {
+    const sessionId = req.query.sessionId;
+    if (!sessionId || typeof sessionId !== 'string') return res.status(400).json({ error: "sessionId required" });
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    const session = await requireSessionAccess(db, auth, sessionId, res);
+    if (!session) return;
+
+    const [segmentDocs, analysisDocs] = await Promise.all([
+        db.collection('debate_segments').find({ session_id: sessionId }).sort({ spoken_at: 1, created_at: 1 }).toArray(),
+        db.collection('analysis_logs').find({ session_id: sessionId, superseded: { $ne: true } }).sort({ created_at: 1 }).toArray()
+    ]);
+
+    const latestBySegment = new Map(analysisDocs.map(doc => [doc.segment_id, doc]));
+    const analyses = Array.from(latestBySegment.values()).map(toAnalysisResult).reverse();
+    const segments = segmentDocs.map(toDebateSegment).reverse();
+
+    return res.status(200).json({
+        session: toSessionSummary(session, { segments: segments.length, analyses: analyses.length }),
+        segments,
+        analyses
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
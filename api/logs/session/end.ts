@@ -1,13 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { connectToDatabase } from '../../_lib/db.js'; // Adicionado .js
+import { applyCors } from '../../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../../_lib/auth.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (applyCors(req, res, 'POST')) return;
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
@@ -15,6 +12,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!sessionId) return res.status(400).json({ error: "sessionId required" });
 
     const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
 
     await db.collection('sessions').updateOne(
         { session_id: sessionId },
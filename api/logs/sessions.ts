@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Filter, Document } from 'mongodb';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth } from '../_lib/auth.js';
+import { toSessionSummary } from '../_lib/mappers.js';
+
+const MAX_PAGE_SIZE = 50;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET')) return;
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.pageSize) || 20));
+    const { status, from, to } = req.query;
+    const fromDate = from ? new Date(String(from)) : null;
+    const toDate = to ? new Date(String(to)) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: "Datas inválidas em from/to" });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+
+    const filter: Filter<Document> = { org_id: auth.orgId };
+    if (status === 'active' || status === 'completed') filter.status = status;
+    if (fromDate || toDate) {
+        filter.started_at = {
+            ...(fromDate ? { $gte: fromDate } : {}),
+            ...(toDate ? { $lte: toDate } : {})
+        };
+    }
+
+    const sessions = db.collection('sessions');
+
+    const [total, docs] = await Promise.all([
+        sessions.countDocuments(filter),
+        sessions.find(filter)
+            .sort({ started_at: -1 })
+            .skip((page - 1) * pageSize)
+            .limit(pageSize)
+            .toArray()
+    ]);
+
+    const ids = docs.map(doc => doc.session_id);
+    const countBySession = async (collection: string, extraFilter: Record<string, unknown> = {}) => {
+        const rows = await db.collection(collection).aggregate([
+            { $match: { session_id: { $in: ids }, ...extraFilter } },
+            { $group: { _id: '$session_id', count: { $sum: 1 } } }
+        ]).toArray();
+        return new Map(rows.map(row => [row._id, row.count as number]));
+    };
+    const [segmentCounts, analysisCounts] = await Promise.all([
+        countBySession('debate_segments'),
+        countBySession('analysis_logs', { superseded: { $ne: true } })
+    ]);
+
+    return res.status(200).json({
+        sessions: docs.map(doc => toSessionSummary(doc, {
+            segments: segmentCounts.get(doc.session_id),
+            analyses: analysisCounts.get(doc.session_id)
+        })),
+        page,
+        pageSize,
+        total
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
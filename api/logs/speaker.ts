@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth, requireSessionAccess } from '../_lib/auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'POST')) return;
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { sessionId, segmentId, speaker } = req.body;
+    if (!sessionId || !segmentId || !speaker) {
+        return res.status(400).json({ error: "Dados obrigatórios faltando" });
+    }
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+    if (!await requireSessionAccess(db, auth, sessionId, res)) return;
+    const correction = { speaker, speaker_corrected_at: new Date(), updated_at: new Date() };
+
+    await db.collection('debate_segments').updateOne(
+        { segment_id: segmentId, session_id: sessionId },
+        { $set: correction }
+    );
+
+    // Corrige também as afirmações extraídas do segmento
+
+    await db.collection('analysis_logs').updateMany(
+        { session_id: sessionId, $or: [{ segment_id: segmentId }, { parent_segment_id: segmentId }] },
+        { $set: correction }
+    );
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
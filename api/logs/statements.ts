@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { connectToDatabase } from '../_lib/db.js';
+import { applyCors } from '../_lib/cors.js';
+import { requireAuth } from '../_lib/auth.js';
+import { toPriorStatement } from '../_lib/mappers.js';
+import { topicSimilarity } from '../../services/claimMatching.js';
+
+// Falas do orador comparadas por requisição; as mais recentes primeiro
+const MAX_CANDIDATES = 500;
+const MAX_RESULTS = 5;
+const SIMILARITY_THRESHOLD = 0.35;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Histórico de um orador: afirmações já verificadas (em qualquer sessão) sobre o mesmo assunto
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (applyCors(req, res, 'GET')) return;
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const speaker = String(req.query.speaker || '').trim();
+    const text = String(req.query.text || '').trim();
+    const segmentId = req.query.segmentId ? String(req.query.segmentId) : null;
+    if (!speaker || !text) return res.status(400).json({ error: "speaker e text são obrigatórios" });
+
+    const { db } = await connectToDatabase();
+    const auth = await requireAuth(req, res, db);
+    if (!auth) return;
+
+    // O nome do orador vem do cadastro de participantes de cada sessão; a caixa pode variar
+    const docs = await db.collection('analysis_logs')
+        .find({
+            org_id: auth.orgId,
+            speaker: { $regex: `^${escapeRegex(speaker)}$`, $options: 'i' },
+            status: 'DONE',
+            is_repeat: { $ne: true },
+            superseded: { $ne: true },
+            ...(segmentId ? { parent_segment_id: { $ne: segmentId } } : {})
+        })
+        .sort({ created_at: -1 })
+        .limit(MAX_CANDIDATES)
+        .project({ segment_id: 1, parent_segment_id: 1, session_id: 1, claim_text: 1, verdict: 1, created_at: 1 })
+        .toArray();
+
+    const matches = docs
+        .map(doc => ({ doc, similarity: topicSimilarity(text, doc.claim_text || '') }))
+        .filter(match => match.similarity >= SIMILARITY_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, MAX_RESULTS);
+
+    // Horário da fala vem do segmento de origem (debate_segments), quando existe
+    const parentIds = matches.map(match => match.doc.parent_segment_id).filter(Boolean);
+    const segments = parentIds.length
+        ? await db.collection('debate_segments')
+            .find({ org_id: auth.orgId, segment_id: { $in: parentIds } })
+            .project({ segment_id: 1, spoken_at: 1, created_at: 1 })
+            .toArray()
+        : [];
+    const segmentsById = new Map(segments.map(doc => [doc.segment_id, doc]));
+
+    return res.status(200).json({
+        statements: matches.map(({ doc }) => toPriorStatement(doc, segmentsById.get(doc.parent_segment_id)))
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
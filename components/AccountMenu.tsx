@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, LogIn, LogOut, Trash2, UserCircle } from 'lucide-react';
+import { Account, ApiTokenInfo } from '../types';
+import { createApiToken, fetchApiTokens, login, logout, register, revokeApiToken } from '../services/authService';
+import { useI18n } from './I18nProvider';
+
+interface AccountMenuProps {
+  account: Account | null;
+  onAccountChange: (account: Account | null) => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500";
+
+// Login/cadastro quando deslogado; conta, tokens de integração e logout quando logado
+export const AccountMenu: React.FC<AccountMenuProps> = ({ account, onAccountChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [form, setForm] = useState({ organization: '', name: '', email: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !account) return;
+    fetchApiTokens().then(setTokens).catch(() => setTokens([]));
+  }, [open, account]);
+
+  const updateField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const signedIn = mode === 'login' ? await login(form.email, form.password) : await register(form);
+      onAccountChange(signedIn);
+      setForm({ organization: '', name: '', email: '', password: '' });
+      setOpen(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    onAccountChange(null);
+    setTokens([]);
+    setNewToken(null);
+    setOpen(false);
+  };
+
+  const handleCreateToken = async () => {
+    if (!tokenName.trim()) return;
+    try {
+      const created = await createApiToken(tokenName.trim());
+      setTokens(prev => [created.info, ...prev]);
+      setNewToken(created.token);
+      setTokenName('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRevokeToken = async (tokenId: string) => {
+    try {
+      await revokeApiToken(tokenId);
+      setTokens(prev => prev.filter(token => token.id !== tokenId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1.5 p-2 rounded-lg transition-colors hover:bg-slate-800 ${account ? 'text-slate-300 hover:text-blue-400' : 'text-yellow-400'}`}
+        title={account ? `${account.name} · ${account.organization.name}` : t('auth.signIn')}
+      >
+        {account ? <UserCircle className="w-5 h-5" /> : <LogIn className="w-5 h-5" />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-3 z-50 space-y-3">
+          {account ? (
+            <>
+              <div>
+                <p className="text-sm text-slate-200 font-medium">{account.name}</p>
+                <p className="text-xs text-slate-500">{account.email}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {account.organization.name} · {account.role === 'admin' ? t('auth.admin') : t('auth.member')}
+                </p>
+              </div>
+
+              <div className="border-t border-slate-800 pt-3 space-y-2">
+                <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-400">
+                  <KeyRound className="w-3 h-3" />
+                  {t('auth.apiTokens')}
+                </p>
+                {tokens.map(token => (
+                  <div key={token.id} className="flex items-center gap-2 text-xs text-slate-300">
+                    <span className="flex-1 truncate">{token.name}</span>
+                    <button onClick={() => handleRevokeToken(token.id)} className="text-slate-500 hover:text-red-400" title={t('auth.revokeToken')}>
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                {newToken && (
+                  <div className="text-xs text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded p-2">
+                    <p className="mb-1">{t('auth.tokenCreated')}</p>
+                    <code className="block break-all select-all text-emerald-200">{newToken}</code>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    value={tokenName}
+                    onChange={(e) => setTokenName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateToken()}
+                    placeholder={t('auth.tokenName')}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleCreateToken}
+                    className="px-2 text-xs rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-blue-400"
+                  >
+                    {t('auth.createToken')}
+                  </button>
+                </div>
+              </div>
+
+              {error && <p className="text-xs text-red-400">{error}</p>}
+
+              <button
+                onClick={handleLogout}
+                className="w-full flex items-center justify-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400"
+              >
+                <LogOut className="w-3 h-3" />
+                {t('auth.signOut')}
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <div className="flex gap-2 text-xs">
+                <button type="button" onClick={() => setMode('login')} className={mode === 'login' ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}>
+                  {t('auth.signIn')}
+                </button>
+                <span className="text-slate-700">|</span>
+                <button type="button" onClick={() => setMode('register')} className={mode === 'register' ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}>
+                  {t('auth.register')}
+                </button>
+              </div>
+              {mode === 'register' && (
+                <>
+                  <input value={form.organization} onChange={updateField('organization')} placeholder={t('auth.organization')} className={inputClass} required />
+                  <input value={form.name} onChange={updateField('name')} placeholder={t('auth.name')} className={inputClass} required />
+                </>
+              )}
+              <input type="email" value={form.email} onChange={updateField('email')} placeholder={t('auth.email')} className={inputClass} required />
+              <input type="password" value={form.password} onChange={updateField('password')} placeholder={t('auth.password')} className={inputClass} required />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium disabled:opacity-50"
+              >
+                {mode === 'login' ? t('auth.signIn') : t('auth.createOrganization')}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
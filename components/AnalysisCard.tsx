@@ -1,57 +1,286 @@
-import React from 'react';
-import { CheckCircle, AlertTriangle, XCircle, HelpCircle, ExternalLink } from 'lucide-react';
-import { AnalysisResult, VerdictType } from '../types';
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, HelpCircle, ExternalLink, User, FileWarning, WifiOff, ChevronDown, ChevronUp, Scale, RotateCw, Repeat, BadgeCheck, ArrowLeftRight, History, Library, MessageCircle } from 'lucide-react';
+import { AnalysisResult, ReviewStatus, UNKNOWN_SPEAKER, VerdictType } from '../types';
+import { ReviewAction, ReviewControls } from './ReviewControls';
+import { useI18n } from './I18nProvider';
+import { fallacyLabel, MessageKey, Translator, verdictKey } from '../services/i18n';
 
 interface AnalysisCardProps {
   result: AnalysisResult;
+  speakerOptions?: string[];
+  onSpeakerChange?: (segmentId: string, speaker: string) => void;
+  onRetry?: (segmentId: string) => void;
+  onReview?: (segmentId: string, action: ReviewAction) => void;
 }
 
-export const AnalysisCard: React.FC<AnalysisCardProps> = ({ result }) => {
+// Sentimento de -1 (hostil) a 1 (positivo)
+const getSentimentConfig = (score: number): { label: MessageKey; color: string } => {
+  if (score <= -0.3) return { label: 'card.negativeTone', color: 'bg-red-400' };
+  if (score >= 0.3) return { label: 'card.positiveTone', color: 'bg-green-400' };
+  return { label: 'card.neutralTone', color: 'bg-slate-400' };
+};
+
+const REVIEW_COLORS: Record<ReviewStatus, string> = {
+  APPROVED: 'text-green-300',
+  OVERRIDDEN: 'text-blue-300',
+  FLAGGED: 'text-yellow-300',
+};
+
+const describeRepeat = (checkedAt: number, t: Translator) => {
+  const date = new Date(checkedAt);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? t('card.repeatToday', { time })
+    : t('card.repeatOn', { date: date.toLocaleDateString(), time });
+};
+
+export const AnalysisCard: React.FC<AnalysisCardProps> = ({ result, speakerOptions = [], onSpeakerChange, onRetry, onReview }) => {
+  const [showCounterEvidence, setShowCounterEvidence] = useState(false);
+  const [showPriorStatements, setShowPriorStatements] = useState(false);
+  const [selectedFallacy, setSelectedFallacy] = useState<string | null>(null);
+  const { t } = useI18n();
+
   const getVerdictConfig = (verdict: VerdictType) => {
     switch (verdict) {
       case VerdictType.TRUE:
-        return { color: 'bg-green-500/20 border-green-500/30 text-green-400', icon: CheckCircle, label: 'Verdadeiro' };
+        return { color: 'bg-green-500/20 border-green-500/30 text-green-400', icon: CheckCircle, label: t(verdictKey(verdict)) };
       case VerdictType.FALSE:
-        return { color: 'bg-red-500/20 border-red-500/30 text-red-400', icon: XCircle, label: 'Falso' };
+        return { color: 'bg-red-500/20 border-red-500/30 text-red-400', icon: XCircle, label: t(verdictKey(verdict)) };
       case VerdictType.MISLEADING:
-        return { color: 'bg-orange-500/20 border-orange-500/30 text-orange-400', icon: AlertTriangle, label: 'Enganoso' };
+        return { color: 'bg-orange-500/20 border-orange-500/30 text-orange-400', icon: AlertTriangle, label: t(verdictKey(verdict)) };
+      case VerdictType.OPINION:
+        return { color: 'bg-purple-500/20 border-purple-500/30 text-purple-400', icon: MessageCircle, label: t(verdictKey(verdict)) };
       default:
-        return { color: 'bg-slate-700/50 border-slate-600 text-slate-400', icon: HelpCircle, label: 'Inconclusivo' };
+        return { color: 'bg-slate-700/50 border-slate-600 text-slate-400', icon: HelpCircle, label: t(verdictKey(VerdictType.UNVERIFIABLE)) };
     }
   };
 
-  const config = getVerdictConfig(result.verdict);
+  // Falhas técnicas não são vereditos: exibidas com rótulo próprio
+  const getStatusConfig = () => {
+    if (result.status === 'PARSE_FAILURE') {
+      return { color: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400', icon: FileWarning, label: t('card.parseFailure') };
+    }
+    if (result.status === 'ERROR') {
+      return { color: 'bg-slate-800/50 border-red-500/30 text-red-300', icon: WifiOff, label: t('card.checkError') };
+    }
+    return getVerdictConfig(result.verdict);
+  };
+
+  const config = getStatusConfig();
   const Icon = config.icon;
+  const speaker = result.speaker || UNKNOWN_SPEAKER;
+  const isFinished = !result.status || result.status === 'DONE';
+  const sentiment = getSentimentConfig(result.sentimentScore || 0);
+  const fallacies = result.logicalFallacies || [];
+  const activeFallacy = fallacies.find(f => (f.id || f.name) === selectedFallacy);
+  const canEditSpeaker = !!onSpeakerChange && speakerOptions.length > 0;
+  const priorStatements = result.priorStatements || [];
+  const contradicted = result.contradiction && priorStatements.find(p => p.segmentId === result.contradiction!.segmentId);
 
   return (
-    <div className={`p-4 rounded-xl border ${config.color} transition-all duration-300 hover:scale-[1.01]`}>
+    <div id={`card-${result.segmentId}`} className={`p-4 rounded-xl border ${config.color} transition-all duration-300 hover:scale-[1.01]`}>
       <div className="flex justify-between items-start mb-3">
         <div className="flex items-center gap-2">
           <Icon className="w-5 h-5" />
           <span className="font-bold uppercase tracking-wider text-sm">{config.label}</span>
         </div>
-        <span className="text-xs font-mono opacity-50">{result.segmentId.slice(0, 4)}</span>
+        <div className="flex items-center gap-2">
+          <span className="flex items-center gap-1 text-xs text-slate-300 bg-slate-900/40 px-2 py-0.5 rounded">
+            <User className="w-3 h-3" />
+            {canEditSpeaker ? (
+              <select
+                value={speaker}
+                onChange={(e) => onSpeakerChange!(result.segmentId, e.target.value)}
+                className="bg-transparent text-xs text-slate-300 focus:outline-none cursor-pointer"
+                title={t('card.fixSpeaker')}
+              >
+                {Array.from(new Set([UNKNOWN_SPEAKER, ...speakerOptions, speaker])).map(name => (
+                  <option key={name} value={name} className="bg-slate-900">
+                    {name === UNKNOWN_SPEAKER ? t('common.unknownSpeaker') : name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              speaker === UNKNOWN_SPEAKER ? t('common.unknownSpeaker') : speaker
+            )}
+          </span>
+          <span className="text-xs font-mono opacity-50">{result.segmentId.slice(0, 4)}</span>
+        </div>
       </div>
       
+      {result.review && (
+        <div className={`mb-2 flex items-center gap-1 text-xs ${REVIEW_COLORS[result.review.status]}`}>
+          <BadgeCheck className="w-3 h-3" />
+          {/* O feed público não traz o nome do editor */}
+          {result.review.editor
+            ? t('card.reviewedBy', { status: t(`review.${result.review.status}` as MessageKey), editor: result.review.editor })
+            : t(`review.${result.review.status}` as MessageKey)}
+          {result.review.originalVerdict && result.review.originalVerdict !== result.verdict && (
+            <span className="opacity-70">{t('card.aiVerdict', { verdict: getVerdictConfig(result.review.originalVerdict).label })}</span>
+          )}
+          {result.review.note && <span className="opacity-70">— {result.review.note}</span>}
+        </div>
+      )}
+
+      {result.repeatOf && (
+        <div className="mb-2 flex items-center gap-1 text-xs text-blue-300/80" title={t('card.session', { sessionId: result.repeatOf.sessionId })}>
+          <Repeat className="w-3 h-3" />
+          {describeRepeat(result.repeatOf.checkedAt, t)}
+        </div>
+      )}
+
+      {isFinished && result.contradiction && (
+        <div className="mb-2 rounded-lg border border-orange-500/30 bg-orange-500/10 p-2 text-xs text-orange-200">
+          <p className="flex items-center gap-1 font-semibold uppercase tracking-wider">
+            <ArrowLeftRight className="w-3 h-3" />
+            {t('card.contradiction')}
+          </p>
+          {contradicted && (
+            <p className="mt-1 italic opacity-80" title={t('card.session', { sessionId: contradicted.sessionId })}>
+              {t('card.previouslySaid', { date: new Date(contradicted.spokenAt).toLocaleDateString(), text: contradicted.text })}
+            </p>
+          )}
+          <p className="mt-1 opacity-80">{result.contradiction.explanation}</p>
+        </div>
+      )}
+
       <p className="text-slate-300 mb-3 italic">"{result.context?.[0] || '...'}"</p>
       <p className="text-sm leading-relaxed text-slate-100">{result.explanation}</p>
+
+      {isFinished && fallacies.length > 0 && (
+        <div className="mt-3">
+          <div className="flex flex-wrap gap-1.5">
+            {fallacies.map(f => {
+              const key = f.id || f.name;
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedFallacy(selectedFallacy === key ? null : key)}
+                  title={f.description}
+                  className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                    selectedFallacy === key
+                      ? 'bg-purple-500/30 border-purple-400/50 text-purple-200'
+                      : 'bg-purple-500/10 border-purple-500/20 text-purple-300 hover:bg-purple-500/20'
+                  }`}
+                >
+                  <Scale className="w-3 h-3" />
+                  {fallacyLabel(t, f)}
+                </button>
+              );
+            })}
+          </div>
+          {activeFallacy?.description && (
+            <p className="mt-1.5 text-xs text-purple-200/70">{activeFallacy.description}</p>
+          )}
+        </div>
+      )}
+
+      {isFinished && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-500" title={t('card.sentiment', { score: (result.sentimentScore || 0).toFixed(2) })}>
+          <div className="relative w-20 h-1.5 rounded-full bg-slate-700">
+            <span className="absolute top-0 left-1/2 w-px h-1.5 bg-slate-500" />
+            <span
+              className={`absolute -top-0.5 w-2.5 h-2.5 rounded-full ${sentiment.color}`}
+              style={{ left: `calc(${((result.sentimentScore || 0) + 1) * 50}% - 5px)` }}
+            />
+          </div>
+          {t(sentiment.label)}
+        </div>
+      )}
+
+      {isFinished && result.counterEvidence && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowCounterEvidence(!showCounterEvidence)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            {showCounterEvidence ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            {t('card.counterEvidence')}
+          </button>
+          {showCounterEvidence && (
+            <p className="mt-1.5 text-sm text-slate-300 bg-slate-900/40 rounded-lg p-2 border border-white/5">
+              {result.counterEvidence}
+            </p>
+          )}
+        </div>
+      )}
+
+      {isFinished && priorStatements.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowPriorStatements(!showPriorStatements)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <History className="w-3 h-3" />
+            {t('card.priorStatements', { count: priorStatements.length })}
+          </button>
+          {showPriorStatements && (
+            <ul className="mt-1.5 space-y-1.5 text-xs text-slate-300 bg-slate-900/40 rounded-lg p-2 border border-white/5">
+              {priorStatements.map(statement => (
+                <li key={statement.segmentId} title={t('card.session', { sessionId: statement.sessionId })}>
+                  <span className="text-slate-500">{new Date(statement.spokenAt).toLocaleDateString()}</span>
+                  {' · '}
+                  <span className="font-semibold">{getVerdictConfig(statement.verdict).label}</span>
+                  {' · '}
+                  <span className="italic">"{statement.text}"</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {result.status === 'PARSE_FAILURE' && result.parseErrors && result.parseErrors.length > 0 && (
+        <ul className="mt-2 text-xs text-yellow-300/70 list-disc list-inside">
+          {result.parseErrors.slice(0, 3).map((error, i) => <li key={i}>{error}</li>)}
+        </ul>
+      )}
+
+      {onReview && isFinished && (
+        <ReviewControls key={result.review?.reviewedAt || 0} result={result} onReview={onReview} />
+      )}
+
+      {onRetry && (result.status === 'ERROR' || result.status === 'PARSE_FAILURE') && (
+        <button
+          onClick={() => onRetry(result.segmentId)}
+          className="mt-3 flex items-center gap-1 text-xs px-2 py-1 rounded border border-white/10 text-slate-300 hover:bg-white/5 transition-colors"
+        >
+          <RotateCw className="w-3 h-3" />
+          {t('card.retry')}
+        </button>
+      )}
       
       {result.sources.length > 0 && (
         <div className="mt-3 pt-3 border-t border-white/5">
-          <p className="text-xs text-slate-500 mb-1">Fontes:</p>
+          <p className="text-xs text-slate-500 mb-1">{t('card.sources')}</p>
           <div className="flex flex-wrap gap-2">
-            {result.sources.slice(0, 2).map((source: any, i: number) => (
-              <a 
-                key={i} 
-                href={source.uri} 
-                target="_blank" 
-                rel="noreferrer"
-                className="text-xs flex items-center gap-1 text-blue-400 hover:underline"
-              >
-                <ExternalLink className="w-3 h-3" />
-                {source.title || 'Referência'}
-              </a>
-            ))}
+            {result.sources.slice(0, 2).map((source, i) => {
+              const label = (
+                <>
+                  {source.internal ? <Library className="w-3 h-3" /> : <ExternalLink className="w-3 h-3" />}
+                  {source.title || t('card.reference')}
+                  {source.internal && (
+                    <span className="ml-1 px-1.5 rounded bg-emerald-500/10 border border-emerald-500/20 text-emerald-300 text-[10px] uppercase tracking-wider">
+                      {t('card.internalSource')}
+                    </span>
+                  )}
+                </>
+              );
+              // Documentos do acervo podem não ter link público
+              return source.uri ? (
+                <a
+                  key={i}
+                  href={source.uri}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-xs flex items-center gap-1 text-blue-400 hover:underline"
+                >
+                  {label}
+                </a>
+              ) : (
+                <span key={i} className="text-xs flex items-center gap-1 text-slate-300">{label}</span>
+              );
+            })}
           </div>
         </div>
       )}
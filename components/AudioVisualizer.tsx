@@ -3,9 +3,16 @@ import React, { useEffect, useRef } from 'react';
 interface AudioVisualizerProps {
   stream: MediaStream | null;
   isConnected: boolean;
+  // 'meter' mostra só o nível de entrada (RMS), para ajustar o ganho da mesa
+  variant?: 'spectrum' | 'meter';
 }
 
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isConnected }) => {
+// Faixas do medidor em dBFS
+const METER_FLOOR_DB = -60;
+const METER_WARN_DB = -12;
+const METER_CLIP_DB = -3;
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isConnected, variant = 'spectrum' }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const analyserRef = useRef<AnalyserNode>();
@@ -26,8 +33,41 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isConn
 
     const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
+    const samples = new Float32Array(analyser.fftSize);
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d')!;
+    let peakDb = METER_FLOOR_DB;
+
+    const drawMeter = () => {
+      animationRef.current = requestAnimationFrame(drawMeter);
+      analyser.getFloatTimeDomainData(samples);
+
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const rms = Math.sqrt(sum / samples.length);
+      const db = Math.max(METER_FLOOR_DB, 20 * Math.log10(rms || 1e-6));
+      // Pico com queda lenta, como nos medidores de mesa
+      peakDb = Math.max(db, peakDb - 0.5);
+
+      const toX = (value: number) => ((value - METER_FLOOR_DB) / -METER_FLOOR_DB) * canvas.width;
+
+      ctx.fillStyle = 'rgb(15, 23, 42)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      ctx.fillStyle = db > METER_CLIP_DB ? '#ef4444' : db > METER_WARN_DB ? '#eab308' : '#22c55e';
+      ctx.fillRect(0, 0, toX(db), canvas.height);
+
+      ctx.fillStyle = '#e2e8f0';
+      ctx.fillRect(Math.min(canvas.width - 2, toX(peakDb)), 0, 2, canvas.height);
+    };
+
+    if (variant === 'meter') {
+      drawMeter();
+      return () => {
+        if (animationRef.current) cancelAnimationFrame(animationRef.current);
+        if (contextRef.current) contextRef.current.close();
+      };
+    }
 
     const draw = () => {
       animationRef.current = requestAnimationFrame(draw);
@@ -61,7 +101,18 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isConn
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
       if (contextRef.current) contextRef.current.close();
     };
-  }, [stream, isConnected]);
+  }, [stream, isConnected, variant]);
+
+  if (variant === 'meter') {
+    return (
+      <canvas
+        ref={canvasRef}
+        width={300}
+        height={6}
+        className="w-full h-1.5 rounded bg-slate-950"
+      />
+    );
+  }
 
   return (
     <canvas 
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Loader2, Trash2, Upload } from 'lucide-react';
+import { CorpusDocument, Language } from '../types';
+import { deleteCorpusDocument, fetchCorpusDocuments, uploadCorpusDocument } from '../services/corpusService';
+import { useI18n } from './I18nProvider';
+
+interface CorpusPanelProps {
+  // Idioma do stemming da busca textual para os documentos enviados
+  language: Language;
+}
+
+// Acervo interno: documentos em texto consultados antes da busca na web em cada verificação
+export const CorpusPanel: React.FC<CorpusPanelProps> = ({ language }) => {
+  const { t } = useI18n();
+  const [documents, setDocuments] = useState<CorpusDocument[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [uri, setUri] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCorpusDocuments()
+      .then(setDocuments)
+      .catch(() => setError(t('corpus.unavailable')));
+  }, [t]);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (selected && !title) setTitle(selected.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleUpload = async () => {
+    if (!file || !title.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const content = await file.text();
+      const document = await uploadCorpusDocument({ title: title.trim(), content, uri: uri.trim() || undefined, language });
+      setDocuments(prev => [document, ...prev]);
+      setFile(null);
+      setTitle('');
+      setUri('');
+    } catch (e: any) {
+      setError(e.message || t('corpus.uploadFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (documentId: string) => {
+    try {
+      await deleteCorpusDocument(documentId);
+      setDocuments(prev => prev.filter(d => d.id !== documentId));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
+      <h2 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
+        <Library className="w-4 h-4" />
+        {t('corpus.title')}
+      </h2>
+
+      <div className="space-y-1.5 mb-3 max-h-40 overflow-y-auto">
+        {documents.length === 0 && <p className="text-xs text-slate-500">{t('corpus.empty')}</p>}
+        {documents.map(doc => (
+          <div key={doc.id} className="flex items-center gap-2 text-xs text-slate-300">
+            <span className="flex-1 truncate" title={doc.uri || doc.title}>{doc.title}</span>
+            <span className="text-slate-500">{t('corpus.chunks', { count: doc.chunkCount })}</span>
+            <button onClick={() => handleDelete(doc.id)} className="text-slate-500 hover:text-red-400" title={t('app.remove')}>
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="file"
+          accept=".txt,.md,.csv"
+          onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+          className="block w-full text-xs text-slate-400 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-slate-900 file:text-slate-300"
+        />
+        {file && (
+          <>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={t('corpus.documentTitle')}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+            />
+            <input
+              value={uri}
+              onChange={(e) => setUri(e.target.value)}
+              placeholder={t('corpus.documentUri')}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleUpload}
+              disabled={busy || !title.trim()}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:text-blue-400 disabled:opacity-50 transition-colors"
+            >
+              {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+              {t('corpus.upload')}
+            </button>
+          </>
+        )}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { downloadExport, ExportableSession, ExportFormat } from '../services/exportService';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../services/i18n';
+
+interface ExportMenuProps {
+  data: ExportableSession;
+}
+
+const FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'markdown', label: 'export.markdown' },
+  { format: 'html', label: 'export.html' },
+  { format: 'json', label: 'export.json' },
+  { format: 'csv', label: 'export.csv' },
+  { format: 'srt', label: 'export.srt' },
+  { format: 'vtt', label: 'export.vtt' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ data }) => {
+  const [open, setOpen] = useState(false);
+  const { language, t } = useI18n();
+  const isEmpty = data.analyses.length === 0 && data.segments.length === 0;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={isEmpty}
+        className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        title={t('export.title')}
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-48 bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1 z-50">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => { downloadExport(data, format, language); setOpen(false); }}
+              className="w-full text-left px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { createTranslator, saveUiLanguage, Translator } from '../services/i18n';
+import { DEFAULT_LANGUAGE, Language } from '../types';
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translator;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: createTranslator(DEFAULT_LANGUAGE),
+});
+
+interface I18nProviderProps {
+  initialLanguage: Language;
+  // Páginas abertas por link (viewer/overlay) não alteram a preferência salva
+  persist?: boolean;
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ initialLanguage, persist = true, children }) => {
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+
+  const value = useMemo(() => ({
+    language,
+    setLanguage: (next: Language) => {
+      setLanguageState(next);
+      if (persist) saveUiLanguage(next);
+    },
+    t: createTranslator(language),
+  }), [language, persist]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
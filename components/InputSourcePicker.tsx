@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { FileAudio, Mic, MonitorUp, RefreshCw } from 'lucide-react';
+import {
+  AudioInputDevice,
+  InputSourceKind,
+  InputSourceSelection,
+  listAudioInputDevices,
+  MediaInput,
+  PLAYBACK_RATES,
+  unlockDeviceLabels
+} from '../services/audioSources';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface InputSourcePickerProps {
+  selection: InputSourceSelection;
+  onSelectionChange: (selection: InputSourceSelection) => void;
+  onMediaChange: (media: MediaInput | null) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+}
+
+const SOURCE_OPTIONS: { kind: InputSourceKind; label: MessageKey; icon: React.ElementType }[] = [
+  { kind: 'display', label: 'source.display', icon: MonitorUp },
+  { kind: 'device', label: 'source.device', icon: Mic },
+  { kind: 'file', label: 'source.file', icon: FileAudio },
+];
+
+export const InputSourcePicker: React.FC<InputSourcePickerProps> = ({
+  selection,
+  onSelectionChange,
+  onMediaChange,
+  playbackRate,
+  onPlaybackRateChange
+}) => {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [mediaUrl, setMediaUrl] = useState('');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (selection.kind !== 'device') return;
+    listAudioInputDevices().then(setDevices).catch(() => setDevices([]));
+
+    // Interfaces USB conectadas com a página aberta
+    const refresh = () => listAudioInputDevices().then(setDevices).catch(() => {});
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [selection.kind]);
+
+  const handleUnlock = async () => {
+    setDeviceError(null);
+    try {
+      setDevices(await unlockDeviceLabels());
+    } catch (e) {
+      setDeviceError(t('source.micDenied'));
+    }
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 text-xs text-slate-200";
+  const hasLabels = devices.some(d => d.label);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {SOURCE_OPTIONS.map(({ kind, label, icon: Icon }) => (
+          <button
+            key={kind}
+            onClick={() => onSelectionChange({ ...selection, kind })}
+            className={`flex items-center justify-center gap-1.5 text-xs py-1.5 rounded-lg border transition-colors ${
+              selection.kind === kind ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" /> {t(label)}
+          </button>
+        ))}
+      </div>
+
+      {selection.kind === 'device' && (
+        <div className="flex gap-2">
+          <select
+            value={selection.deviceId || ''}
+            onChange={(e) => onSelectionChange({ kind: 'device', deviceId: e.target.value || undefined })}
+            className={`${inputClass} flex-1 min-w-0 py-1.5`}
+          >
+            <option value="">{t('source.defaultDevice')}</option>
+            {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || t('source.deviceFallback', { index: i + 1 })}</option>)}
+          </select>
+          {!hasLabels && (
+            <button onClick={handleUnlock} className={`${inputClass} hover:border-blue-500`} title={t('source.showDeviceNames')}>
+              <RefreshCw className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+      {deviceError && <p className="text-xs text-red-400">{deviceError}</p>}
+
+      {selection.kind === 'file' && (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="file"
+              accept="audio/*,video/*"
+              onChange={(e) => {
+                setMediaUrl('');
+                onMediaChange(e.target.files?.[0] || null);
+              }}
+              className="flex-1 min-w-0 text-xs text-slate-400 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-slate-700 file:text-slate-200"
+            />
+            <select
+              value={playbackRate}
+              onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+              className={inputClass}
+              title={t('source.playbackRate')}
+            >
+              {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+            </select>
+          </div>
+          {/* Uma URL preenchida tem precedência sobre o arquivo escolhido */}
+          <input
+            type="url"
+            value={mediaUrl}
+            onChange={(e) => {
+              setMediaUrl(e.target.value);
+              onMediaChange(e.target.value.trim() || null);
+            }}
+            placeholder={t('source.mediaUrl')}
+            className={`${inputClass} w-full py-1.5 placeholder:text-slate-600`}
+          />
+        </>
+      )}
+    </div>
+  );
+};
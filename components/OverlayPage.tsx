@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { subscribeToSession } from '../services/liveFeedService';
+import { AnalysisResult, UNKNOWN_SPEAKER, VerdictType } from '../types';
+import { useI18n } from './I18nProvider';
+import { verdictKey } from '../services/i18n';
+
+// --- OVERLAY PARA TRANSMISSÃO (OBS / LOWER-THIRD) ---
+// ?overlay=<shareToken>&theme=chroma|transparent|dark&dwell=<segundos>&position=bottom|top&lang=pt-BR|es|en
+
+export type OverlayTheme = 'chroma' | 'transparent' | 'dark';
+
+interface OverlayPageProps {
+  shareToken: string;
+  theme?: OverlayTheme;
+  dwellSeconds?: number;
+  position?: 'top' | 'bottom';
+}
+
+// Vereditos mais antigos que isso ao chegar são histórico, não vão ao ar
+const MAX_VERDICT_AGE_MS = 2 * 60 * 1000;
+const CLAIM_MAX_CHARS = 110;
+const EXPLANATION_MAX_CHARS = 140;
+
+const BACKGROUNDS: Record<OverlayTheme, string> = {
+  chroma: '#00ff00',
+  transparent: 'transparent',
+  dark: '#050a10',
+};
+
+const VERDICT_BADGES: Record<VerdictType, string> = {
+  [VerdictType.TRUE]: 'bg-green-600',
+  [VerdictType.FALSE]: 'bg-red-600',
+  [VerdictType.MISLEADING]: 'bg-orange-500',
+  [VerdictType.OPINION]: 'bg-purple-600',
+  [VerdictType.UNVERIFIABLE]: 'bg-slate-600',
+};
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+// Verdicts que vão ao ar: concluídos, não repetidos, e não sinalizados pela revisão
+const isBroadcastable = (analysis: AnalysisResult) =>
+  (!analysis.status || analysis.status === 'DONE') &&
+  !analysis.repeatOf &&
+  !analysis.superseded &&
+  analysis.review?.status !== 'FLAGGED' &&
+  Date.now() - (analysis.timestamp || 0) < MAX_VERDICT_AGE_MS;
+
+export const OverlayPage: React.FC<OverlayPageProps> = ({
+  shareToken,
+  theme = 'chroma',
+  dwellSeconds = 8,
+  position = 'bottom'
+}) => {
+  const [current, setCurrent] = useState<AnalysisResult | null>(null);
+  const [visible, setVisible] = useState(false);
+  const queueRef = useRef<AnalysisResult[]>([]);
+  const currentIdRef = useRef<string | null>(null);
+  const shownRef = useRef(new Set<string>());
+  const busyRef = useRef(false);
+  const { t } = useI18n();
+
+  // Fundo da página (chroma key ou transparente para browser source do OBS)
+  useEffect(() => {
+    const previous = document.body.style.background;
+    document.body.style.background = BACKGROUNDS[theme];
+    const scanline = document.querySelector<HTMLElement>('.scanline');
+    if (scanline) scanline.style.display = 'none';
+    return () => {
+      document.body.style.background = previous;
+      if (scanline) scanline.style.display = '';
+    };
+  }, [theme]);
+
+  useEffect(() => {
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    // Exibe um veredito por vez; o próximo só entra depois do tempo de permanência
+    const showNext = () => {
+      const next = queueRef.current.shift();
+      if (!next) {
+        busyRef.current = false;
+        currentIdRef.current = null;
+        return;
+      }
+      busyRef.current = true;
+      currentIdRef.current = next.segmentId;
+      setCurrent(next);
+      setVisible(true);
+      timeouts.push(setTimeout(() => setVisible(false), dwellSeconds * 1000));
+      timeouts.push(setTimeout(showNext, dwellSeconds * 1000 + 600));
+    };
+
+    const unsubscribe = subscribeToSession(shareToken, {
+      onSegment: () => {},
+      onAnalysis: (analysis) => {
+        // Atualização de um veredito já recebido: sinalizado ou substituído sai da fila (e do ar);
+        // editado segue na fila com o texto novo
+        if (shownRef.current.has(analysis.segmentId)) {
+          const withdrawn = analysis.superseded || analysis.review?.status === 'FLAGGED';
+          queueRef.current = withdrawn
+            ? queueRef.current.filter(a => a.segmentId !== analysis.segmentId)
+            : queueRef.current.map(a => a.segmentId === analysis.segmentId ? analysis : a);
+          if (withdrawn && currentIdRef.current === analysis.segmentId) setVisible(false);
+          return;
+        }
+        if (!isBroadcastable(analysis)) return;
+        shownRef.current.add(analysis.segmentId);
+        queueRef.current.push(analysis);
+        if (!busyRef.current) showNext();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach(clearTimeout);
+    };
+  }, [shareToken, dwellSeconds]);
+
+  const badgeVerdict = current && VERDICT_BADGES[current.verdict] ? current.verdict : VerdictType.UNVERIFIABLE;
+
+  return (
+    <div className={`fixed inset-x-0 ${position === 'top' ? 'top-8' : 'bottom-12'} flex justify-center px-12 pointer-events-none`}>
+      {current && (
+        <div
+          className={`w-full max-w-5xl flex items-stretch rounded-lg overflow-hidden shadow-2xl transition-all duration-500 ${
+            visible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'
+          }`}
+        >
+          <div className={`${VERDICT_BADGES[badgeVerdict]} flex items-center px-6 text-white text-2xl font-bold tracking-wider uppercase`}>
+            {t(verdictKey(badgeVerdict))}
+          </div>
+          <div className="flex-1 bg-slate-950/95 px-6 py-3 text-white">
+            <div className="text-sm uppercase tracking-widest text-blue-300 font-semibold">
+              {current.speaker && current.speaker !== UNKNOWN_SPEAKER ? current.speaker : t('overlay.fallbackLabel')}
+            </div>
+            <div className="text-xl font-semibold leading-snug">"{truncate(current.context?.[0] || '', CLAIM_MAX_CHARS)}"</div>
+            <div className="text-base text-slate-300 truncate">{truncate(current.explanation, EXPLANATION_MAX_CHARS)}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
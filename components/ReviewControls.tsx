@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Check, Flag, Pencil, X } from 'lucide-react';
+import { AnalysisResult, ReviewStatus, Source, VerdictType } from '../types';
+import { useI18n } from './I18nProvider';
+import { verdictKey } from '../services/i18n';
+
+export interface ReviewAction {
+  status: ReviewStatus;
+  note?: string;
+  override?: Partial<Pick<AnalysisResult, 'verdict' | 'explanation' | 'sources'>>;
+}
+
+interface ReviewControlsProps {
+  result: AnalysisResult;
+  onReview: (segmentId: string, action: ReviewAction) => void;
+}
+
+const VERDICT_OPTIONS: VerdictType[] = [
+  VerdictType.TRUE,
+  VerdictType.FALSE,
+  VerdictType.MISLEADING,
+  VerdictType.OPINION,
+  VerdictType.UNVERIFIABLE,
+];
+
+// Uma fonte por linha, no formato "Título | URL" (ou só a URL)
+const sourcesToText = (sources: Source[]) => sources.map(s => `${s.title} | ${s.uri}`).join('\n');
+// Linhas que continuam iguais a uma fonte do acervo interno mantêm a marcação
+const textToSources = (text: string, previous: Source[]): Source[] =>
+  text.split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [title, uri] = line.includes('|') ? line.split('|').map(p => p.trim()) : [line, line];
+      const internal = previous.some(s => s.internal && s.title === title && s.uri === uri);
+      return internal ? { title, uri, internal } : { title, uri };
+    });
+
+export const ReviewControls: React.FC<ReviewControlsProps> = ({ result, onReview }) => {
+  const [mode, setMode] = useState<'idle' | 'edit' | 'flag'>('idle');
+  const [verdict, setVerdict] = useState<VerdictType>(result.verdict);
+  const [explanation, setExplanation] = useState(result.explanation);
+  const [sources, setSources] = useState(sourcesToText(result.sources));
+  const [note, setNote] = useState('');
+  const { t } = useI18n();
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+  const buttonClass = "flex items-center gap-1 text-xs px-2 py-1 rounded border border-white/10 hover:bg-white/5 transition-colors";
+
+  const submitOverride = () => {
+    onReview(result.segmentId, {
+      status: 'OVERRIDDEN',
+      note: note.trim() || undefined,
+      override: { verdict, explanation: explanation.trim(), sources: textToSources(sources, result.sources) }
+    });
+    setMode('idle');
+  };
+
+  const submitFlag = () => {
+    onReview(result.segmentId, { status: 'FLAGGED', note: note.trim() || undefined });
+    setMode('idle');
+  };
+
+  if (mode === 'edit') {
+    return (
+      <div className="mt-3 pt-3 border-t border-white/5 space-y-2">
+        <select value={verdict} onChange={(e) => setVerdict(e.target.value as VerdictType)} className={inputClass}>
+          {VERDICT_OPTIONS.map(v => <option key={v} value={v}>{t(verdictKey(v))}</option>)}
+        </select>
+        <textarea value={explanation} onChange={(e) => setExplanation(e.target.value)} rows={3} className={inputClass} />
+        <textarea
+          value={sources}
+          onChange={(e) => setSources(e.target.value)}
+          rows={2}
+          placeholder={t('reviewControls.sourcePlaceholder')}
+          className={`${inputClass} font-mono text-xs`}
+        />
+        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('reviewControls.editorNote')} className={inputClass} />
+        <div className="flex gap-2">
+          <button onClick={submitOverride} className={`${buttonClass} text-blue-300`}>
+            <Check className="w-3 h-3" /> {t('reviewControls.saveEdit')}
+          </button>
+          <button onClick={() => setMode('idle')} className={`${buttonClass} text-slate-400`}>
+            <X className="w-3 h-3" /> {t('common.cancel')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'flag') {
+    return (
+      <div className="mt-3 pt-3 border-t border-white/5 space-y-2">
+        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('reviewControls.flagReason')} className={inputClass} autoFocus />
+        <div className="flex gap-2">
+          <button onClick={submitFlag} className={`${buttonClass} text-yellow-300`}>
+            <Flag className="w-3 h-3" /> {t('reviewControls.flag')}
+          </button>
+          <button onClick={() => setMode('idle')} className={`${buttonClass} text-slate-400`}>
+            <X className="w-3 h-3" /> {t('common.cancel')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/5 flex flex-wrap gap-2">
+      <button onClick={() => onReview(result.segmentId, { status: 'APPROVED' })} className={`${buttonClass} text-green-300`}>
+        <Check className="w-3 h-3" /> {t('reviewControls.approve')}
+      </button>
+      <button onClick={() => setMode('edit')} className={`${buttonClass} text-blue-300`}>
+        <Pencil className="w-3 h-3" /> {t('reviewControls.editVerdict')}
+      </button>
+      <button onClick={() => setMode('flag')} className={`${buttonClass} text-yellow-300`}>
+        <Flag className="w-3 h-3" /> {t('reviewControls.flag')}
+      </button>
+    </div>
+  );
+};
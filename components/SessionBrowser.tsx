@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, History, Loader2 } from 'lucide-react';
+import { AnalysisCard } from './AnalysisCard';
+import { SpeakerScorecard } from './SpeakerScorecard';
+import { ExportMenu } from './ExportMenu';
+import { TranscriptPanel } from './TranscriptPanel';
+import { UsagePanel } from './UsagePanel';
+import { fetchSessionDetail, fetchSessions, SessionFilters, SessionPage } from '../services/historyService';
+import { SessionDetail } from '../types';
+import { useI18n } from './I18nProvider';
+
+const PAGE_SIZE = 10;
+
+const formatDateTime = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+// Visualização somente leitura de uma sessão gravada
+const SessionDetailView: React.FC<{ detail: SessionDetail; onBack: () => void }> = ({ detail, onBack }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          {t('sessions.back')}
+        </button>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">
+            {formatDateTime(detail.session.startedAt)} · {detail.session.status === 'active' ? t('sessions.active') : t('sessions.completed')} · {t(`language.${detail.session.language}`)}
+          </span>
+          <ExportMenu data={{ ...detail, sessionId: detail.session.sessionId }} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <div className="lg:col-span-4 space-y-6">
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
+            <SpeakerScorecard history={detail.analyses} />
+          </div>
+
+          <UsagePanel sessionId={detail.session.sessionId} />
+
+          <TranscriptPanel title={t('sessions.transcript')} segments={detail.segments} />
+        </div>
+
+        <div className="lg:col-span-8 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-slate-200">{t('sessions.analyses')}</h2>
+            <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
+              {t('common.checks', { count: detail.analyses.length })}
+            </span>
+          </div>
+          {detail.analyses.map(analysis => (
+            <AnalysisCard key={analysis.segmentId} result={analysis} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const SessionBrowser: React.FC = () => {
+  const [filters, setFilters] = useState<SessionFilters>({ page: 1, pageSize: PAGE_SIZE, status: '' });
+  const [result, setResult] = useState<SessionPage | null>(null);
+  const [detail, setDetail] = useState<SessionDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchSessions(filters)
+      .then(setResult)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [filters]);
+
+  const openSession = async (sessionId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setDetail(await fetchSessionDetail(sessionId));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (patch: Partial<SessionFilters>) => setFilters(prev => ({ ...prev, ...patch, page: 1 }));
+
+  if (detail) return <SessionDetailView detail={detail} onBack={() => setDetail(null)} />;
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          {t('sessions.title')}
+        </h2>
+        <div className="flex flex-wrap gap-2 items-end">
+          <label className="text-xs text-slate-500 flex flex-col gap-1">
+            {t('sessions.from')}
+            <input type="date" className={inputClass} onChange={(e) => updateFilter({ from: e.target.value })} />
+          </label>
+          <label className="text-xs text-slate-500 flex flex-col gap-1">
+            {t('sessions.to')}
+            <input type="date" className={inputClass} onChange={(e) => updateFilter({ to: e.target.value ? `${e.target.value}T23:59:59` : '' })} />
+          </label>
+          <label className="text-xs text-slate-500 flex flex-col gap-1">
+            {t('sessions.status')}
+            <select className={inputClass} value={filters.status} onChange={(e) => updateFilter({ status: e.target.value as SessionFilters['status'] })}>
+              <option value="">{t('sessions.all')}</option>
+              <option value="active">{t('sessions.activePlural')}</option>
+              <option value="completed">{t('sessions.completedPlural')}</option>
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {loading && <Loader2 className="w-5 h-5 animate-spin text-slate-500" />}
+
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700 divide-y divide-slate-700/50">
+        {result?.sessions.length === 0 && (
+          <p className="p-4 text-sm text-slate-500">{t('sessions.empty')}</p>
+        )}
+        {result?.sessions.map(session => (
+          <button
+            key={session.sessionId}
+            onClick={() => openSession(session.sessionId)}
+            className="w-full text-left p-4 hover:bg-slate-800 transition-colors flex items-center justify-between gap-4"
+          >
+            <div>
+              <p className="text-sm text-slate-200 font-medium">{formatDateTime(session.startedAt)}</p>
+              <p className="text-xs text-slate-500">
+                {session.participants.length > 0 ? session.participants.map(p => p.name).join(' × ') : t('sessions.noParticipants')}
+              </p>
+            </div>
+            <div className="text-right text-xs text-slate-500">
+              <p className={session.status === 'active' ? 'text-green-400' : ''}>
+                {session.status === 'active' ? t('sessions.active') : t('sessions.completed')}
+              </p>
+              <p>{t('sessions.counts', { segments: session.segmentCount, analyses: session.analysisCount })}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {result && result.total > result.pageSize && (
+        <div className="flex items-center justify-center gap-4 text-sm text-slate-400">
+          <button
+            disabled={result.page <= 1}
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) - 1 }))}
+            className="p-1 disabled:opacity-30"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          {result.page} / {totalPages}
+          <button
+            disabled={result.page >= totalPages}
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) + 1 }))}
+            className="p-1 disabled:opacity-30"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { AnalysisResult, UNKNOWN_SPEAKER, VerdictType } from '../types';
+import { useI18n } from './I18nProvider';
+import { fallacyLabel, verdictKey } from '../services/i18n';
+
+interface SpeakerScorecardProps {
+  history: AnalysisResult[];
+}
+
+interface SpeakerStats {
+  speaker: string;
+  total: number;
+  counts: Record<VerdictType, number>;
+  averageConfidence: number;
+  topFallacies: { id?: string; name: string; count: number }[];
+  timeline: { segmentId: string; verdict: VerdictType; timestamp: number; text: string }[];
+}
+
+const VERDICT_ORDER: VerdictType[] = [
+  VerdictType.TRUE,
+  VerdictType.MISLEADING,
+  VerdictType.FALSE,
+  VerdictType.OPINION,
+  VerdictType.UNVERIFIABLE
+];
+
+const VERDICT_META: Record<VerdictType, { color: string; text: string }> = {
+  [VerdictType.TRUE]: { color: 'bg-green-500', text: 'text-green-400' },
+  [VerdictType.MISLEADING]: { color: 'bg-orange-500', text: 'text-orange-400' },
+  [VerdictType.FALSE]: { color: 'bg-red-500', text: 'text-red-400' },
+  [VerdictType.OPINION]: { color: 'bg-purple-500', text: 'text-purple-400' },
+  [VerdictType.UNVERIFIABLE]: { color: 'bg-slate-500', text: 'text-slate-400' },
+};
+
+const emptyCounts = (): Record<VerdictType, number> => ({
+  [VerdictType.TRUE]: 0,
+  [VerdictType.FALSE]: 0,
+  [VerdictType.MISLEADING]: 0,
+  [VerdictType.OPINION]: 0,
+  [VerdictType.UNVERIFIABLE]: 0,
+});
+
+// Agrupa o histórico por orador (ignora itens ainda em verificação ou com erro)
+function buildSpeakerStats(history: AnalysisResult[]): SpeakerStats[] {
+  const bySpeaker = new Map<string, AnalysisResult[]>();
+  history
+    .filter(h => !h.status || h.status === 'DONE')
+    .forEach(h => {
+      const speaker = h.speaker || UNKNOWN_SPEAKER;
+      bySpeaker.set(speaker, [...(bySpeaker.get(speaker) || []), h]);
+    });
+
+  return Array.from(bySpeaker.entries())
+    .map(([speaker, items]) => {
+      const counts = emptyCounts();
+      const fallacies = new Map<string, { id?: string; count: number }>();
+      let confidenceSum = 0;
+
+      items.forEach(item => {
+        counts[item.verdict] = (counts[item.verdict] || 0) + 1;
+        confidenceSum += item.confidence || 0;
+        (item.logicalFallacies || []).forEach(f => {
+          fallacies.set(f.name, { id: f.id, count: (fallacies.get(f.name)?.count || 0) + 1 });
+        });
+      });
+
+      return {
+        speaker,
+        total: items.length,
+        counts,
+        averageConfidence: items.length ? confidenceSum / items.length : 0,
+        topFallacies: Array.from(fallacies.entries())
+          .map(([name, { id, count }]) => ({ id, name, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 3),
+        timeline: items
+          .filter(item => item.timestamp)
+          .map(item => ({
+            segmentId: item.segmentId,
+            verdict: item.verdict,
+            timestamp: item.timestamp!,
+            text: item.context?.[0] || ''
+          }))
+          .sort((a, b) => a.timestamp - b.timestamp)
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+export const SpeakerScorecard: React.FC<SpeakerScorecardProps> = ({ history }) => {
+  const stats = useMemo(() => buildSpeakerStats(history), [history]);
+  const { t } = useI18n();
+
+  // Janela temporal do debate inteiro, compartilhada pelas linhas do tempo
+  const timestamps = history.map(h => h.timestamp).filter((t): t is number => !!t);
+  const debateStart = timestamps.length ? Math.min(...timestamps) : 0;
+  const debateDuration = timestamps.length ? Math.max(...timestamps) - debateStart : 0;
+
+  const positionOf = (timestamp: number) =>
+    debateDuration > 0 ? ((timestamp - debateStart) / debateDuration) * 100 : 50;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+        <BarChart3 className="w-4 h-4" />
+        {t('scorecard.title')}
+      </h2>
+
+      {stats.length === 0 && (
+        <p className="text-xs text-slate-500">{t('scorecard.empty')}</p>
+      )}
+
+      {stats.map(s => (
+        <div key={s.speaker} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-200 text-sm">
+              {s.speaker === UNKNOWN_SPEAKER ? t('common.unknownSpeaker') : s.speaker}
+            </span>
+            <span className="text-xs text-slate-500">
+              {t('common.checks', { count: s.total })} · {t('scorecard.confidence', { percent: Math.round(s.averageConfidence * 100) })}
+            </span>
+          </div>
+
+          <div className="flex h-3 w-full rounded-full overflow-hidden bg-slate-700">
+            {VERDICT_ORDER.map(v => (
+              <div
+                key={v}
+                style={{ width: `${(s.counts[v] / s.total) * 100}%` }}
+                className={`${VERDICT_META[v].color} h-full transition-all duration-500`}
+                title={`${t(verdictKey(v))}: ${s.counts[v]}`}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-5 gap-1 text-center">
+            {VERDICT_ORDER.map(v => (
+              <div key={v}>
+                <div className={`text-sm font-bold ${VERDICT_META[v].text}`}>{s.counts[v]}</div>
+                <div className="text-[10px] text-slate-500 truncate">{t(verdictKey(v))}</div>
+              </div>
+            ))}
+          </div>
+
+          {s.topFallacies.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {s.topFallacies.map(f => (
+                <span key={f.name} className="text-[10px] bg-slate-800 border border-slate-700 text-slate-400 px-1.5 py-0.5 rounded">
+                  {fallacyLabel(t, f)} ×{f.count}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {s.timeline.length > 0 && (
+            <div className="relative h-4 rounded bg-slate-800" title={t('scorecard.timeline')}>
+              {s.timeline.map(point => (
+                <span
+                  key={point.segmentId}
+                  style={{ left: `calc(${positionOf(point.timestamp)}% - 4px)` }}
+                  className={`absolute top-1 w-2 h-2 rounded-full ${VERDICT_META[point.verdict].color}`}
+                  title={`${new Date(point.timestamp).toLocaleTimeString()} · ${t(verdictKey(point.verdict))}: ${point.text}`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
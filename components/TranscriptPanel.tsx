@@ -0,0 +1,146 @@
+import React, { Fragment, useState } from 'react';
+import { Check, Info, Pencil, X } from 'lucide-react';
+import { DebateSegment, UNKNOWN_SPEAKER } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface TranscriptPanelProps {
+  title: string;
+  // Mais recente primeiro, como no feed de análise
+  segments: DebateSegment[];
+  // Fala em andamento (transcrição parcial), exibida no topo
+  liveText?: string;
+  // Sem este callback a transcrição é somente leitura
+  onEdit?: (segmentId: string, text: string) => void;
+}
+
+// Arquivos gravados mostram a posição na mídia; captura ao vivo, a hora da fala
+const formatSegmentTime = (segment: DebateSegment) => {
+  if (typeof segment.mediaTime === 'number') {
+    const total = Math.floor(segment.mediaTime);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const hours = Math.floor(total / 3600);
+    const clock = `${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+    return hours > 0 ? `${hours}:${clock}` : clock;
+  }
+  return new Date(segment.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
+
+// Rola até o primeiro card de verificação do segmento e o destaca por um instante
+const jumpToCard = (segment: DebateSegment) => {
+  const card = (segment.claims || [])
+    .map(claim => document.getElementById(`card-${claim.id}`))
+    .find((element): element is HTMLElement => !!element);
+  if (!card) return;
+
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  card.classList.add('ring-2', 'ring-blue-400');
+  setTimeout(() => card.classList.remove('ring-2', 'ring-blue-400'), 1500);
+};
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ title, segments, liveText, onEdit }) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (segment: DebateSegment) => {
+    setEditingId(segment.id);
+    setDraft(segment.text);
+  };
+
+  const saveEdit = (segment: DebateSegment) => {
+    const text = draft.trim();
+    if (text && text !== segment.text) onEdit?.(segment.id, text);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 h-[400px] flex flex-col shadow-sm">
+      <h2 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
+        <Info className="w-4 h-4" />
+        {title}
+      </h2>
+
+      <div className="flex-1 overflow-y-auto pr-2 font-mono text-sm leading-relaxed scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent flex flex-col gap-3">
+        {liveText && (
+          <div className="text-blue-300 animate-pulse border-l-2 border-blue-500 pl-2">
+            {liveText}
+          </div>
+        )}
+
+        {!liveText && segments.length === 0 && (
+          <p className="text-xs text-slate-500 font-sans">{t('transcript.empty')}</p>
+        )}
+
+        {segments.map(segment => {
+          const claimCount = segment.claims?.length || 0;
+
+          if (editingId === segment.id) {
+            return (
+              <div key={segment.id} className="border-l-2 border-blue-500 pl-2 space-y-1.5">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={3}
+                  autoFocus
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+                <div className="flex gap-2 font-sans">
+                  <button onClick={() => saveEdit(segment)} className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-white/10 text-blue-300 hover:bg-white/5">
+                    <Check className="w-3 h-3" /> {t('transcript.save')}
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-white/10 text-slate-400 hover:bg-white/5">
+                    <X className="w-3 h-3" /> {t('common.cancel')}
+                  </button>
+                </div>
+              </div>
+            );
+          }
+
+          return (
+            <Fragment key={segment.id}>
+              {segment.text && (
+                <div
+                  onClick={() => claimCount > 0 && jumpToCard(segment)}
+                  className={`group text-slate-400 border-l-2 pl-2 transition-all hover:opacity-100 ${
+                    claimCount > 0 ? 'opacity-80 border-blue-500/40 cursor-pointer' : 'opacity-50 border-transparent'
+                  }`}
+                  title={claimCount > 0 ? t('transcript.claims', { count: claimCount }) : t('transcript.noClaims')}
+                >
+                  <div className="flex items-center gap-2 text-[10px] text-slate-500 font-sans">
+                    <span>{formatSegmentTime(segment)}</span>
+                    {segment.editedAt && (
+                      <span className="text-yellow-400/70" title={segment.originalText ? t('transcript.original', { text: segment.originalText }) : undefined}>
+                        {t('transcript.edited')}
+                      </span>
+                    )}
+                    {onEdit && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); startEditing(segment); }}
+                        className="ml-auto opacity-0 group-hover:opacity-100 text-slate-500 hover:text-blue-400 transition-opacity"
+                        title={t('transcript.edit')}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  {segment.speaker !== UNKNOWN_SPEAKER && (
+                    <span className="text-blue-400 font-semibold mr-1">{segment.speaker}:</span>
+                  )}
+                  {segment.text}
+                </div>
+              )}
+              {/* Lista mais recente primeiro: a lacuna anterior à fala aparece logo abaixo dela */}
+              {!!segment.audioGapMs && (
+                <div className="flex items-center gap-2 text-[10px] text-yellow-400/70 font-sans">
+                  <span className="flex-1 border-t border-dashed border-yellow-500/30" />
+                  {t('transcript.audioGap', { seconds: Math.max(1, Math.round(segment.audioGapMs / 1000)) })}
+                  <span className="flex-1 border-t border-dashed border-yellow-500/30" />
+                </div>
+              )}
+            </Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
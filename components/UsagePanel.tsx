@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Coins, Loader2 } from 'lucide-react';
+import { SessionUsage, UsageBucket } from '../types';
+import { fetchSessionUsage, updateSessionBudget } from '../services/usageService';
+import { useI18n } from './I18nProvider';
+
+interface UsagePanelProps {
+  sessionId: string;
+  // Muda quando novas verificações terminam, para recarregar o consumo
+  refreshKey?: number;
+  onBudgetChange?: (usage: SessionUsage) => void;
+}
+
+// Espera as verificações em rajada terminarem antes de consultar a api
+const REFRESH_DEBOUNCE_MS = 1500;
+
+const formatCost = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+const UsageTable: React.FC<{ title: string; buckets: UsageBucket[] }> = ({ title, buckets }) => {
+  const { t } = useI18n();
+  if (buckets.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-400 mb-1">{title}</p>
+      <table className="w-full text-xs text-slate-300">
+        <thead>
+          <tr className="text-slate-500">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-normal">{t('usage.tokens')}</th>
+            <th className="text-right font-normal">{t('usage.cost')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map(bucket => (
+            <tr key={bucket.key} title={t('usage.breakdown', { prompt: formatTokens(bucket.promptTokens), response: formatTokens(bucket.responseTokens), requests: bucket.requests })}>
+              <td className="truncate max-w-[9rem]">{bucket.key}</td>
+              <td className="text-right">{formatTokens(bucket.totalTokens)}</td>
+              <td className="text-right">{formatCost(bucket.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// Consumo de tokens e custo estimado da sessão, com teto de gasto opcional
+export const UsagePanel: React.FC<UsagePanelProps> = ({ sessionId, refreshKey, onBudgetChange }) => {
+  const { t } = useI18n();
+  const [usage, setUsage] = useState<SessionUsage | null>(null);
+  const [budget, setBudget] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Sessão já carregada: só as atualizações dela esperam o debounce
+  const loadedSessionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchSessionUsage(sessionId)
+        .then(data => {
+          loadedSessionRef.current = data.sessionId;
+          setUsage(data);
+          setError(null);
+        })
+        .catch(() => setError(t('usage.unavailable')));
+    }, loadedSessionRef.current === sessionId ? REFRESH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [sessionId, refreshKey, t]);
+
+  useEffect(() => {
+    setBudget(usage?.budgetUsd != null ? String(usage.budgetUsd) : '');
+  }, [usage?.sessionId, usage?.budgetUsd]);
+
+  const handleSaveBudget = async () => {
+    const value = budget.trim() === '' ? null : Number(budget.replace(',', '.'));
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      setError(t('usage.invalidBudget'));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateSessionBudget(sessionId, value);
+      setUsage(updated);
+      onBudgetChange?.(updated);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm space-y-3">
+      <h2 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+        <Coins className="w-4 h-4" />
+        {t('usage.title')}
+      </h2>
+
+      {usage && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-slate-900 rounded-lg p-2">
+              <p className="text-[10px] uppercase text-slate-500">{t('usage.prompt')}</p>
+              <p className="text-sm text-slate-200">{formatTokens(usage.totals.promptTokens)}</p>
+            </div>
+            <div className="bg-slate-900 rounded-lg p-2">
+              <p className="text-[10px] uppercase text-slate-500">{t('usage.response')}</p>
+              <p className="text-sm text-slate-200">{formatTokens(usage.totals.responseTokens)}</p>
+            </div>
+            <div className="bg-slate-900 rounded-lg p-2">
+              <p className="text-[10px] uppercase text-slate-500">{t('usage.total')}</p>
+              <p className="text-sm text-slate-200">{formatTokens(usage.totals.totalTokens)}</p>
+            </div>
+          </div>
+
+          <p className={`text-xs ${usage.overBudget ? 'text-red-400' : 'text-slate-400'}`}>
+            {t('usage.estimatedCost', { cost: formatCost(usage.totals.costUsd) })}
+            {usage.budgetUsd !== null && ` / ${formatCost(usage.budgetUsd)}`}
+            {usage.overBudget && ` · ${t('usage.overBudget')}`}
+          </p>
+
+          <UsageTable title={t('usage.byDay')} buckets={usage.byDay} />
+          <UsageTable title={t('usage.byModel')} buckets={usage.byModel} />
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveBudget()}
+          placeholder={t('usage.noBudget')}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+          title={t('usage.budget')}
+        />
+        <button
+          onClick={handleSaveBudget}
+          disabled={saving}
+          className="flex items-center gap-1.5 px-2 text-xs rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:text-blue-400 disabled:opacity-50"
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          {t('usage.saveBudget')}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
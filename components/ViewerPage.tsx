@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Eye, ShieldCheck } from 'lucide-react';
+import { AnalysisCard } from './AnalysisCard';
+import { SpeakerScorecard } from './SpeakerScorecard';
+import { TranscriptPanel } from './TranscriptPanel';
+import { LiveFeedTransport, subscribeToSession } from '../services/liveFeedService';
+import { AnalysisResult, DebateSegment } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface ViewerPageProps {
+  shareToken: string;
+}
+
+// Atualiza ou insere mantendo a ordem "mais recente primeiro"
+function upsertById<T>(list: T[], item: T, getId: (item: T) => string, getTime: (item: T) => number): T[] {
+  const others = list.filter(existing => getId(existing) !== getId(item));
+  return [...others, item].sort((a, b) => getTime(b) - getTime(a));
+}
+
+// Página pública somente leitura: acompanha a sessão de outro operador em tempo real
+export const ViewerPage: React.FC<ViewerPageProps> = ({ shareToken }) => {
+  const [segments, setSegments] = useState<DebateSegment[]>([]);
+  const [analyses, setAnalyses] = useState<AnalysisResult[]>([]);
+  const [transport, setTransport] = useState<{ type: LiveFeedTransport; connected: boolean }>({ type: 'sse', connected: false });
+  const { t } = useI18n();
+
+  useEffect(() => {
+    return subscribeToSession(shareToken, {
+      onSegment: (segment) => setSegments(prev => upsertById(prev, segment, s => s.id, s => s.timestamp)),
+      // Verificações substituídas por correção da transcrição ou sinalizadas pela revisão saem do feed
+      onAnalysis: (analysis) => setAnalyses(prev => analysis.superseded || analysis.review?.status === 'FLAGGED'
+        ? prev.filter(a => a.segmentId !== analysis.segmentId)
+        : upsertById(prev, analysis, a => a.segmentId, a => a.timestamp || 0)),
+      onTransport: (type, connected) => setTransport({ type, connected }),
+    });
+  }, [shareToken]);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <header className="border-b border-slate-800 bg-slate-950/50 backdrop-blur-md sticky top-0 z-50">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-8 h-8 text-blue-500" />
+            <div>
+              <h1 className="font-bold text-xl tracking-tight">Veritas<span className="text-blue-500">Live</span></h1>
+              <p className="text-xs text-slate-400 font-medium flex items-center gap-1">
+                <Eye className="w-3 h-3" /> {t('viewer.subtitle')}
+              </p>
+            </div>
+          </div>
+          <div className={`px-3 py-1 rounded-full text-xs font-medium border ${
+            transport.connected ? 'bg-green-500/10 border-green-500/20 text-green-400' : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+          }`}>
+            {transport.connected ? t('viewer.live') : t('viewer.connecting')}
+            {transport.type === 'poll' && <span className="ml-1 opacity-70">(polling)</span>}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <div className="lg:col-span-4 space-y-6 h-fit lg:sticky top-24">
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 shadow-sm">
+            <SpeakerScorecard history={analyses} />
+          </div>
+
+          <TranscriptPanel title={t('common.liveTranscript')} segments={segments} />
+        </div>
+
+        <div className="lg:col-span-8 space-y-4">
+          <h2 className="text-lg font-semibold text-slate-200">{t('common.analysisFeed')}</h2>
+          {analyses.length === 0 ? (
+            <div className="h-64 flex flex-col items-center justify-center text-slate-500 gap-4 border-2 border-dashed border-slate-800 rounded-xl">
+              <AlertTriangle className="w-12 h-12 opacity-20" />
+              <p>{t('viewer.waiting')}</p>
+            </div>
+          ) : (
+            analyses.map(analysis => (
+              <div key={analysis.segmentId} className="animate-in fade-in slide-in-from-top-4 duration-500">
+                <AnalysisCard result={analysis} />
+              </div>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -1,15 +1,44 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ViewerPage } from './components/ViewerPage';
+import { OverlayPage, OverlayTheme } from './components/OverlayPage';
+import { I18nProvider } from './components/I18nProvider';
+import { isLanguage, loadUiLanguage } from './services/i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?viewer=<shareToken> abre a página pública somente leitura;
+// ?overlay=<shareToken> abre o lower-third para transmissão
+const params = new URLSearchParams(window.location.search);
+const viewerToken = params.get('viewer');
+const overlayToken = params.get('overlay');
+// &lang= fixa o idioma de páginas abertas por link (ex.: overlay no idioma do debate)
+const langParam = params.get('lang');
+
+const renderPage = () => {
+  if (overlayToken) {
+    return (
+      <OverlayPage
+        shareToken={overlayToken}
+        theme={(params.get('theme') as OverlayTheme) || undefined}
+        dwellSeconds={Number(params.get('dwell')) || undefined}
+        position={params.get('position') === 'top' ? 'top' : 'bottom'}
+      />
+    );
+  }
+  if (viewerToken) return <ViewerPage shareToken={viewerToken} />;
+  return <App />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider initialLanguage={isLanguage(langParam) ? langParam : loadUiLanguage()} persist={!viewerToken && !overlayToken}>
+      {renderPage()}
+    </I18nProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,232 @@
+import type { Messages } from './pt-BR';
+
+// --- TEXTOS DA INTERFACE: INGLÊS ---
+
+export const en: Messages = {
+  'language.pt-BR': 'Portuguese',
+  'language.es': 'Spanish',
+  'language.en': 'English',
+
+  'verdict.TRUE': 'True',
+  'verdict.FALSE': 'False',
+  'verdict.MISLEADING': 'Misleading',
+  'verdict.OPINION': 'Opinion',
+  'verdict.UNVERIFIABLE': 'Unverifiable',
+
+  'review.APPROVED': 'Approved',
+  'review.OVERRIDDEN': 'Edited',
+  'review.FLAGGED': 'Flagged',
+
+  'fallacy.AD_HOMINEM': 'Ad hominem',
+  'fallacy.STRAW_MAN': 'Straw man',
+  'fallacy.FALSE_DILEMMA': 'False dilemma',
+  'fallacy.SLIPPERY_SLOPE': 'Slippery slope',
+  'fallacy.APPEAL_TO_EMOTION': 'Appeal to emotion',
+  'fallacy.APPEAL_TO_AUTHORITY': 'Appeal to authority',
+  'fallacy.APPEAL_TO_POPULARITY': 'Appeal to popularity',
+  'fallacy.HASTY_GENERALIZATION': 'Hasty generalization',
+  'fallacy.FALSE_CAUSE': 'False cause',
+  'fallacy.CHERRY_PICKING': 'Cherry picking',
+  'fallacy.WHATABOUTISM': 'Whataboutism',
+  'fallacy.RED_HERRING': 'Red herring',
+
+  'common.unknownSpeaker': 'Unidentified',
+  'common.cancel': 'Cancel',
+  'common.checks': '{count} checks',
+  'common.liveTranscript': 'Live Transcript',
+  'common.analysisFeed': 'Analysis Feed',
+
+  'app.tagline': 'Real-Time Fact-Checking',
+  'app.interfaceLanguage': 'Interface language',
+  'app.start': 'Start',
+  'app.stop': 'Stop',
+  'app.queueTitle': 'Checks running / queued',
+  'app.queueDepth': '{count} queued',
+  'app.queuePaused': '(waiting for quota)',
+  'app.queueHeld': '(paused: budget exhausted)',
+  'app.copyViewerLink': 'Copy audience link',
+  'app.copyOverlayLink': 'Copy overlay link (OBS)',
+  'app.viewerLink': 'Audience link',
+  'app.overlayLink': 'Overlay link',
+  'app.linkCopied': '{label} copied',
+  'app.editorName': 'Editor name',
+  'app.reviewMode': 'Review mode',
+  'app.pastSessions': 'Past sessions',
+  'app.backToLive': 'Back to live',
+  'app.clearHistory': 'Clear history',
+  'app.audioSignal': 'Audio Signal',
+  'app.participants': 'Participants',
+  'app.noParticipants': 'Add the participants to identify who is speaking.',
+  'app.remove': 'Remove',
+  'app.participantName': 'Participant name',
+  'app.addParticipant': 'Add participant',
+  'app.debateLanguage': 'Debate language',
+  'app.onlyReviewed': 'Reviewed only',
+  'app.waitingDebate': 'Waiting for the debate to start...',
+
+  'auth.signIn': 'Sign in',
+  'auth.register': 'Create account',
+  'auth.signOut': 'Sign out',
+  'auth.organization': 'Organization (newsroom)',
+  'auth.name': 'Your name',
+  'auth.email': 'Email',
+  'auth.password': 'Password (min. 8 characters)',
+  'auth.createOrganization': 'Create organization',
+  'auth.admin': 'Administrator',
+  'auth.member': 'Member',
+  'auth.apiTokens': 'Integration tokens',
+  'auth.revokeToken': 'Revoke token',
+  'auth.tokenName': 'Token name',
+  'auth.createToken': 'Create',
+  'auth.tokenCreated': 'Copy it now; the token will not be shown again:',
+
+  'status.ready': 'Ready to start',
+  'status.selectFile': 'Select an audio or video file or enter a URL.',
+  'status.loadingMedia': 'Loading media...',
+  'status.mediaLoadFailed': 'Could not load the media. URLs from other sites must allow CORS.',
+  'status.captureFailed': 'Failed to capture audio.',
+  'status.shareUnavailable': 'Start the session (signed in) to get a link.',
+  'status.sessionEnded': 'Session ended',
+  'status.historyCleared': 'History cleared.',
+  'status.editorRequired': 'Enter the editor name to review.',
+  'status.confirmClear': 'Are you sure? This will erase the whole history.',
+  'status.signInRequired': 'Sign in to record the session.',
+  'status.budgetExceeded': 'AI budget exhausted: verifications paused.',
+  'status.connecting': 'CONNECTING...',
+  'status.online': 'ONLINE',
+  'status.reconnecting': 'RECONNECTING ({attempt}/{max})...',
+  'status.reconnectFailed': 'RECONNECTION FAILED',
+  'status.disconnected': 'Disconnected',
+  'status.mockOnline': 'ONLINE (SIMULATED)',
+  'status.scriptDone': 'Script finished',
+
+  'live.CONNECTING': 'Connecting transcription',
+  'live.CONNECTED': 'Transcription connected',
+  'live.RECONNECTING': 'Reconnecting transcription',
+  'live.DISCONNECTED': 'Transcription disconnected',
+  'live.FAILED': 'Transcription connection failed',
+
+  'analysis.queued': '⏳ Waiting in the verification queue...',
+  'analysis.checking': '🔍 Checking facts...',
+  'analysis.rateLimitRetry': '⏳ Quota limit reached. Retry ({attempt}) in {seconds}s...',
+  'analysis.rateLimitFailed': 'Quota limit exceeded after several retries.',
+  'analysis.connectionFailed': 'Could not reach the verification service.',
+  'analysis.quotaExceeded': 'This session has reached its AI usage limit.',
+  'analysis.budgetPaused': '⏸ Session budget exhausted. Verification paused until the cap is raised.',
+  'analysis.parseFailed': 'Could not read the AI response after retries.',
+
+  'card.negativeTone': 'Negative tone',
+  'card.positiveTone': 'Positive tone',
+  'card.neutralTone': 'Neutral tone',
+  'card.sentiment': 'Sentiment: {score}',
+  'card.parseFailure': 'Parse failure',
+  'card.checkError': 'Verification error',
+  'card.fixSpeaker': 'Fix speaker',
+  'card.reviewedBy': '{status} by {editor}',
+  'card.aiVerdict': '(AI: {verdict})',
+  'card.session': 'Session {sessionId}',
+  'card.repeatToday': 'Repeated claim, first checked at {time}',
+  'card.repeatOn': 'Repeated claim, first checked on {date} at {time}',
+  'card.counterEvidence': 'Counter-evidence',
+  'card.retry': 'Retry',
+  'card.sources': 'Sources:',
+  'card.reference': 'Reference',
+  'card.internalSource': 'internal archive',
+  'card.contradiction': 'Contradicts previous statement',
+  'card.previouslySaid': 'On {date}: "{text}"',
+  'card.priorStatements': 'Speaker\'s previous statements ({count})',
+
+  'reviewControls.saveEdit': 'Save edit',
+  'reviewControls.editorNote': 'Editor note (optional)',
+  'reviewControls.flagReason': 'Reason for flagging',
+  'reviewControls.flag': 'Flag',
+  'reviewControls.approve': 'Approve',
+  'reviewControls.editVerdict': 'Edit verdict',
+  'reviewControls.sourcePlaceholder': 'Title | https://source',
+
+  'scorecard.title': 'Speaker Scorecard',
+  'scorecard.empty': 'No finished checks yet.',
+  'scorecard.confidence': '{percent}% confidence',
+  'scorecard.timeline': 'Debate timeline',
+
+  'source.display': 'Screen / tab',
+  'source.device': 'Input',
+  'source.file': 'File',
+  'source.defaultDevice': 'System default input',
+  'source.deviceFallback': 'Input {index}',
+  'source.showDeviceNames': 'Show device names',
+  'source.micDenied': 'Microphone permission denied.',
+  'source.playbackRate': 'Playback speed',
+  'source.mediaUrl': 'or paste an audio/video URL',
+
+  'export.title': 'Export session',
+  'export.markdown': 'Markdown report',
+  'export.html': 'HTML report',
+  'export.json': 'JSON (analyses)',
+  'export.csv': 'CSV (spreadsheet)',
+  'export.srt': 'SRT subtitles',
+  'export.vtt': 'WebVTT subtitles',
+  'export.session': 'Session {sessionId}',
+  'export.reviewedBy': 'Reviewed by {editor}',
+  'export.counterEvidence': 'Counter-evidence:',
+  'export.contradiction': 'Contradicts previous statement:',
+  'export.sources': 'Sources:',
+
+  'sessions.title': 'Sessions',
+  'sessions.back': 'Back to sessions',
+  'sessions.active': 'In progress',
+  'sessions.completed': 'Finished',
+  'sessions.transcript': 'Transcript',
+  'sessions.analyses': 'Session Analyses',
+  'sessions.from': 'From',
+  'sessions.to': 'To',
+  'sessions.status': 'Status',
+  'sessions.all': 'All',
+  'sessions.activePlural': 'In progress',
+  'sessions.completedPlural': 'Finished',
+  'sessions.empty': 'No sessions found.',
+  'sessions.noParticipants': 'No participants registered',
+  'sessions.counts': '{segments} segments · {analyses} checks',
+
+  'corpus.title': 'Internal archive',
+  'corpus.empty': 'No documents in the archive.',
+  'corpus.chunks': '{count} chunks',
+  'corpus.documentTitle': 'Document title',
+  'corpus.documentUri': 'Public link (optional)',
+  'corpus.upload': 'Add to archive',
+  'corpus.uploadFailed': 'Failed to upload document.',
+  'corpus.unavailable': 'Archive unavailable (api offline).',
+
+  'usage.title': 'AI usage',
+  'usage.prompt': 'Prompt',
+  'usage.response': 'Response',
+  'usage.total': 'Total',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Cost',
+  'usage.breakdown': 'Prompt {prompt} · response {response} · {requests} call(s)',
+  'usage.estimatedCost': 'Estimated cost: {cost}',
+  'usage.overBudget': 'budget exhausted',
+  'usage.byDay': 'By day',
+  'usage.byModel': 'By model',
+  'usage.budget': 'Session spending cap (USD)',
+  'usage.noBudget': 'No cap (USD)',
+  'usage.saveBudget': 'Save cap',
+  'usage.invalidBudget': 'Enter a USD amount of zero or more.',
+  'usage.unavailable': 'Usage unavailable (api offline).',
+
+  'transcript.empty': 'Nothing transcribed yet.',
+  'transcript.claims': '{count} checked claim(s) — click to view',
+  'transcript.noClaims': 'No checkable claims',
+  'transcript.edit': 'Fix transcription',
+  'transcript.save': 'Save and re-check',
+  'transcript.edited': 'corrected',
+  'transcript.audioGap': '{seconds}s of audio lost while reconnecting',
+  'transcript.original': 'Original transcription: {text}',
+
+  'viewer.subtitle': 'Live coverage',
+  'viewer.live': 'LIVE',
+  'viewer.connecting': 'CONNECTING...',
+  'viewer.waiting': 'Waiting for checks...',
+
+  'overlay.fallbackLabel': 'Fact-check',
+};
@@ -0,0 +1,232 @@
+import type { Messages } from './pt-BR';
+
+// --- TEXTOS DA INTERFACE: ESPANHOL ---
+
+export const es: Messages = {
+  'language.pt-BR': 'Portugués',
+  'language.es': 'Español',
+  'language.en': 'Inglés',
+
+  'verdict.TRUE': 'Verdadero',
+  'verdict.FALSE': 'Falso',
+  'verdict.MISLEADING': 'Engañoso',
+  'verdict.OPINION': 'Opinión',
+  'verdict.UNVERIFIABLE': 'No concluyente',
+
+  'review.APPROVED': 'Aprobado',
+  'review.OVERRIDDEN': 'Editado',
+  'review.FLAGGED': 'Señalado',
+
+  'fallacy.AD_HOMINEM': 'Ad hominem',
+  'fallacy.STRAW_MAN': 'Hombre de paja',
+  'fallacy.FALSE_DILEMMA': 'Falso dilema',
+  'fallacy.SLIPPERY_SLOPE': 'Pendiente resbaladiza',
+  'fallacy.APPEAL_TO_EMOTION': 'Apelación a la emoción',
+  'fallacy.APPEAL_TO_AUTHORITY': 'Apelación a la autoridad',
+  'fallacy.APPEAL_TO_POPULARITY': 'Apelación a la popularidad',
+  'fallacy.HASTY_GENERALIZATION': 'Generalización apresurada',
+  'fallacy.FALSE_CAUSE': 'Falsa causa',
+  'fallacy.CHERRY_PICKING': 'Selección de datos',
+  'fallacy.WHATABOUTISM': '¿Y tú qué?',
+  'fallacy.RED_HERRING': 'Pista falsa',
+
+  'common.unknownSpeaker': 'No identificado',
+  'common.cancel': 'Cancelar',
+  'common.checks': '{count} verificaciones',
+  'common.liveTranscript': 'Transcripción en vivo',
+  'common.analysisFeed': 'Feed de análisis',
+
+  'app.tagline': 'Verificación de datos en tiempo real',
+  'app.interfaceLanguage': 'Idioma de la interfaz',
+  'app.start': 'Iniciar',
+  'app.stop': 'Detener',
+  'app.queueTitle': 'Verificaciones en curso / en cola',
+  'app.queueDepth': '{count} en cola',
+  'app.queuePaused': '(esperando cuota)',
+  'app.queueHeld': '(pausada: presupuesto agotado)',
+  'app.copyViewerLink': 'Copiar enlace para el público',
+  'app.copyOverlayLink': 'Copiar enlace del overlay (OBS)',
+  'app.viewerLink': 'Enlace del público',
+  'app.overlayLink': 'Enlace del overlay',
+  'app.linkCopied': '{label} copiado',
+  'app.editorName': 'Nombre del editor',
+  'app.reviewMode': 'Modo revisión',
+  'app.pastSessions': 'Sesiones anteriores',
+  'app.backToLive': 'Volver al vivo',
+  'app.clearHistory': 'Borrar historial',
+  'app.audioSignal': 'Señal de audio',
+  'app.participants': 'Participantes',
+  'app.noParticipants': 'Registre a los participantes para identificar quién habla.',
+  'app.remove': 'Quitar',
+  'app.participantName': 'Nombre del participante',
+  'app.addParticipant': 'Agregar participante',
+  'app.debateLanguage': 'Idioma del debate',
+  'app.onlyReviewed': 'Solo revisados',
+  'app.waitingDebate': 'Esperando el inicio del debate...',
+
+  'auth.signIn': 'Iniciar sesión',
+  'auth.register': 'Crear cuenta',
+  'auth.signOut': 'Cerrar sesión',
+  'auth.organization': 'Organización (redacción)',
+  'auth.name': 'Su nombre',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña (mín. 8 caracteres)',
+  'auth.createOrganization': 'Crear organización',
+  'auth.admin': 'Administrador',
+  'auth.member': 'Miembro',
+  'auth.apiTokens': 'Tokens de integración',
+  'auth.revokeToken': 'Revocar token',
+  'auth.tokenName': 'Nombre del token',
+  'auth.createToken': 'Crear',
+  'auth.tokenCreated': 'Cópielo ahora; el token no se mostrará de nuevo:',
+
+  'status.ready': 'Listo para iniciar',
+  'status.selectFile': 'Seleccione un archivo de audio o video o indique una URL.',
+  'status.loadingMedia': 'Cargando medio...',
+  'status.mediaLoadFailed': 'No se pudo cargar el medio. Las URL de otros sitios deben permitir CORS.',
+  'status.captureFailed': 'No se pudo capturar el audio.',
+  'status.shareUnavailable': 'Inicie la sesión (con login) para generar el enlace.',
+  'status.sessionEnded': 'Sesión finalizada',
+  'status.historyCleared': 'Historial borrado.',
+  'status.editorRequired': 'Indique el nombre del editor para revisar.',
+  'status.confirmClear': '¿Está seguro? Esto borrará todo el historial.',
+  'status.signInRequired': 'Inicie sesión para guardar la sesión.',
+  'status.budgetExceeded': 'Presupuesto de IA agotado: verificaciones pausadas.',
+  'status.connecting': 'CONECTANDO...',
+  'status.online': 'EN LÍNEA',
+  'status.reconnecting': 'RECONECTANDO ({attempt}/{max})...',
+  'status.reconnectFailed': 'FALLO EN LA RECONEXIÓN',
+  'status.disconnected': 'Desconectado',
+  'status.mockOnline': 'EN LÍNEA (SIMULADO)',
+  'status.scriptDone': 'Guion concluido',
+
+  'live.CONNECTING': 'Conectando la transcripción',
+  'live.CONNECTED': 'Transcripción conectada',
+  'live.RECONNECTING': 'Reconectando la transcripción',
+  'live.DISCONNECTED': 'Transcripción desconectada',
+  'live.FAILED': 'Falló la conexión de la transcripción',
+
+  'analysis.queued': '⏳ En cola de verificación...',
+  'analysis.checking': '🔍 Verificando datos...',
+  'analysis.rateLimitRetry': '⏳ Límite de cuota alcanzado. Nuevo intento ({attempt}) en {seconds}s...',
+  'analysis.rateLimitFailed': 'Límite de cuota excedido tras varios intentos.',
+  'analysis.connectionFailed': 'Error al conectar con el servicio de verificación.',
+  'analysis.quotaExceeded': 'Límite de uso de IA de esta sesión alcanzado.',
+  'analysis.budgetPaused': '⏸ Presupuesto de la sesión agotado. Verificación pausada hasta ajustar el tope.',
+  'analysis.parseFailed': 'No se pudo leer la respuesta de la IA tras varios intentos.',
+
+  'card.negativeTone': 'Tono negativo',
+  'card.positiveTone': 'Tono positivo',
+  'card.neutralTone': 'Tono neutro',
+  'card.sentiment': 'Sentimiento: {score}',
+  'card.parseFailure': 'Error de lectura',
+  'card.checkError': 'Error en la verificación',
+  'card.fixSpeaker': 'Corregir orador',
+  'card.reviewedBy': '{status} por {editor}',
+  'card.aiVerdict': '(IA: {verdict})',
+  'card.session': 'Sesión {sessionId}',
+  'card.repeatToday': 'Afirmación repetida, verificada por primera vez a las {time}',
+  'card.repeatOn': 'Afirmación repetida, verificada por primera vez el {date} a las {time}',
+  'card.counterEvidence': 'Contraevidencias',
+  'card.retry': 'Reintentar',
+  'card.sources': 'Fuentes:',
+  'card.reference': 'Referencia',
+  'card.internalSource': 'acervo interno',
+  'card.contradiction': 'Contradice una declaración anterior',
+  'card.previouslySaid': 'El {date}: "{text}"',
+  'card.priorStatements': 'Declaraciones anteriores del orador ({count})',
+
+  'reviewControls.saveEdit': 'Guardar edición',
+  'reviewControls.editorNote': 'Nota del editor (opcional)',
+  'reviewControls.flagReason': 'Motivo del señalamiento',
+  'reviewControls.flag': 'Señalar',
+  'reviewControls.approve': 'Aprobar',
+  'reviewControls.editVerdict': 'Editar veredicto',
+  'reviewControls.sourcePlaceholder': 'Título | https://fuente',
+
+  'scorecard.title': 'Marcador por orador',
+  'scorecard.empty': 'Aún no hay verificaciones concluidas.',
+  'scorecard.confidence': '{percent}% confianza',
+  'scorecard.timeline': 'Línea de tiempo del debate',
+
+  'source.display': 'Pantalla / pestaña',
+  'source.device': 'Entrada',
+  'source.file': 'Archivo',
+  'source.defaultDevice': 'Entrada predeterminada del sistema',
+  'source.deviceFallback': 'Entrada {index}',
+  'source.showDeviceNames': 'Mostrar nombres de los dispositivos',
+  'source.micDenied': 'Permiso de micrófono denegado.',
+  'source.playbackRate': 'Velocidad de reproducción',
+  'source.mediaUrl': 'o pegue la URL de un audio/video',
+
+  'export.title': 'Exportar sesión',
+  'export.markdown': 'Informe Markdown',
+  'export.html': 'Informe HTML',
+  'export.json': 'JSON (análisis)',
+  'export.csv': 'CSV (hoja de cálculo)',
+  'export.srt': 'Subtítulos SRT',
+  'export.vtt': 'Subtítulos WebVTT',
+  'export.session': 'Sesión {sessionId}',
+  'export.reviewedBy': 'Revisado por {editor}',
+  'export.counterEvidence': 'Contraevidencias:',
+  'export.contradiction': 'Contradice una declaración anterior:',
+  'export.sources': 'Fuentes:',
+
+  'sessions.title': 'Sesiones',
+  'sessions.back': 'Volver a las sesiones',
+  'sessions.active': 'En curso',
+  'sessions.completed': 'Finalizada',
+  'sessions.transcript': 'Transcripción',
+  'sessions.analyses': 'Análisis de la sesión',
+  'sessions.from': 'Desde',
+  'sessions.to': 'Hasta',
+  'sessions.status': 'Estado',
+  'sessions.all': 'Todas',
+  'sessions.activePlural': 'En curso',
+  'sessions.completedPlural': 'Finalizadas',
+  'sessions.empty': 'No se encontraron sesiones.',
+  'sessions.noParticipants': 'Sin participantes registrados',
+  'sessions.counts': '{segments} intervenciones · {analyses} verificaciones',
+
+  'corpus.title': 'Acervo interno',
+  'corpus.empty': 'No hay documentos en el acervo.',
+  'corpus.chunks': '{count} fragmentos',
+  'corpus.documentTitle': 'Título del documento',
+  'corpus.documentUri': 'Enlace público (opcional)',
+  'corpus.upload': 'Agregar al acervo',
+  'corpus.uploadFailed': 'No se pudo enviar el documento.',
+  'corpus.unavailable': 'Acervo no disponible (api sin conexión).',
+
+  'usage.title': 'Consumo de IA',
+  'usage.prompt': 'Entrada',
+  'usage.response': 'Respuesta',
+  'usage.total': 'Total',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Costo',
+  'usage.breakdown': 'Entrada {prompt} · respuesta {response} · {requests} llamada(s)',
+  'usage.estimatedCost': 'Costo estimado: {cost}',
+  'usage.overBudget': 'presupuesto agotado',
+  'usage.byDay': 'Por día',
+  'usage.byModel': 'Por modelo',
+  'usage.budget': 'Tope de gasto de la sesión (USD)',
+  'usage.noBudget': 'Sin tope (USD)',
+  'usage.saveBudget': 'Guardar tope',
+  'usage.invalidBudget': 'Indique un valor en USD mayor o igual a cero.',
+  'usage.unavailable': 'Consumo no disponible (api fuera de línea).',
+
+  'transcript.empty': 'Aún no hay intervenciones transcritas.',
+  'transcript.claims': '{count} afirmación(es) verificada(s) — haga clic para ver',
+  'transcript.noClaims': 'Sin afirmaciones verificables',
+  'transcript.edit': 'Corregir transcripción',
+  'transcript.save': 'Guardar y verificar de nuevo',
+  'transcript.edited': 'corregido',
+  'transcript.audioGap': '{seconds}s de audio perdidos en la reconexión',
+  'transcript.original': 'Transcripción original: {text}',
+
+  'viewer.subtitle': 'Seguimiento en vivo',
+  'viewer.live': 'EN VIVO',
+  'viewer.connecting': 'CONECTANDO...',
+  'viewer.waiting': 'Esperando verificaciones...',
+
+  'overlay.fallbackLabel': 'Verificación',
+};
@@ -0,0 +1,235 @@
+// --- TEXTOS DA INTERFACE: PORTUGUÊS (BRASIL) ---
+// Pacote de referência: es e en precisam ter exatamente as mesmas chaves.
+// Parâmetros entre chaves ({count}) são preenchidos pelo tradutor.
+
+export const ptBR = {
+  'language.pt-BR': 'Português',
+  'language.es': 'Espanhol',
+  'language.en': 'Inglês',
+
+  'verdict.TRUE': 'Verdadeiro',
+  'verdict.FALSE': 'Falso',
+  'verdict.MISLEADING': 'Enganoso',
+  'verdict.OPINION': 'Opinião',
+  'verdict.UNVERIFIABLE': 'Inconclusivo',
+
+  'review.APPROVED': 'Aprovado',
+  'review.OVERRIDDEN': 'Editado',
+  'review.FLAGGED': 'Sinalizado',
+
+  'fallacy.AD_HOMINEM': 'Ad hominem',
+  'fallacy.STRAW_MAN': 'Espantalho',
+  'fallacy.FALSE_DILEMMA': 'Falso dilema',
+  'fallacy.SLIPPERY_SLOPE': 'Ladeira escorregadia',
+  'fallacy.APPEAL_TO_EMOTION': 'Apelo à emoção',
+  'fallacy.APPEAL_TO_AUTHORITY': 'Apelo à autoridade',
+  'fallacy.APPEAL_TO_POPULARITY': 'Apelo à popularidade',
+  'fallacy.HASTY_GENERALIZATION': 'Generalização apressada',
+  'fallacy.FALSE_CAUSE': 'Falsa causa',
+  'fallacy.CHERRY_PICKING': 'Seleção de dados',
+  'fallacy.WHATABOUTISM': 'E o outro lado?',
+  'fallacy.RED_HERRING': 'Pista falsa',
+
+  'common.unknownSpeaker': 'Não identificado',
+  'common.cancel': 'Cancelar',
+  'common.checks': '{count} verificações',
+  'common.liveTranscript': 'Transcrição ao Vivo',
+  'common.analysisFeed': 'Feed de Análise',
+
+  'app.tagline': 'Fact-Checking em Tempo Real',
+  'app.interfaceLanguage': 'Idioma da interface',
+  'app.start': 'Iniciar',
+  'app.stop': 'Parar',
+  'app.queueTitle': 'Verificações em andamento / na fila',
+  'app.queueDepth': '{count} na fila',
+  'app.queuePaused': '(aguardando quota)',
+  'app.queueHeld': '(pausada: orçamento esgotado)',
+  'app.copyViewerLink': 'Copiar link para o público',
+  'app.copyOverlayLink': 'Copiar link do overlay (OBS)',
+  'app.viewerLink': 'Link do público',
+  'app.overlayLink': 'Link do overlay',
+  'app.linkCopied': '{label} copiado',
+  'app.editorName': 'Nome do editor',
+  'app.reviewMode': 'Modo revisão',
+  'app.pastSessions': 'Sessões anteriores',
+  'app.backToLive': 'Voltar ao vivo',
+  'app.clearHistory': 'Limpar Histórico',
+  'app.audioSignal': 'Sinal de Áudio',
+  'app.participants': 'Participantes',
+  'app.noParticipants': 'Cadastre os participantes para identificar quem fala.',
+  'app.remove': 'Remover',
+  'app.participantName': 'Nome do participante',
+  'app.addParticipant': 'Adicionar participante',
+  'app.debateLanguage': 'Idioma do debate',
+  'app.onlyReviewed': 'Somente revisados',
+  'app.waitingDebate': 'Aguardando início do debate...',
+
+  'auth.signIn': 'Entrar',
+  'auth.register': 'Criar conta',
+  'auth.signOut': 'Sair',
+  'auth.organization': 'Organização (redação)',
+  'auth.name': 'Seu nome',
+  'auth.email': 'E-mail',
+  'auth.password': 'Senha (mín. 8 caracteres)',
+  'auth.createOrganization': 'Criar organização',
+  'auth.admin': 'Administrador',
+  'auth.member': 'Membro',
+  'auth.apiTokens': 'Tokens de integração',
+  'auth.revokeToken': 'Revogar token',
+  'auth.tokenName': 'Nome do token',
+  'auth.createToken': 'Criar',
+  'auth.tokenCreated': 'Copie agora; o token não será exibido de novo:',
+
+  'status.ready': 'Pronto para iniciar',
+  'status.selectFile': 'Selecione um arquivo de áudio ou vídeo ou informe uma URL.',
+  'status.loadingMedia': 'Carregando mídia...',
+  'status.mediaLoadFailed': 'Não foi possível carregar a mídia. URLs de outros sites precisam permitir CORS.',
+  'status.captureFailed': 'Falha ao capturar áudio.',
+  'status.shareUnavailable': 'Inicie a sessão (com login) para gerar o link.',
+  'status.sessionEnded': 'Sessão finalizada',
+  'status.historyCleared': 'Histórico limpo.',
+  'status.editorRequired': 'Informe o nome do editor para revisar.',
+  'status.confirmClear': 'Tem certeza? Isso apagará todo o histórico.',
+  'status.signInRequired': 'Entre na sua conta para gravar a sessão.',
+  'status.budgetExceeded': 'Orçamento de IA esgotado: verificações pausadas.',
+  'status.connecting': 'CONECTANDO...',
+  'status.online': 'ONLINE',
+  'status.reconnecting': 'RECONECTANDO ({attempt}/{max})...',
+  'status.reconnectFailed': 'FALHA NA RECONEXÃO',
+  'status.disconnected': 'Desconectado',
+  'status.mockOnline': 'ONLINE (SIMULADO)',
+  'status.scriptDone': 'Roteiro concluído',
+
+  'live.CONNECTING': 'Conectando à transcrição',
+  'live.CONNECTED': 'Transcrição conectada',
+  'live.RECONNECTING': 'Reconectando à transcrição',
+  'live.DISCONNECTED': 'Transcrição desconectada',
+  'live.FAILED': 'Falha na conexão da transcrição',
+
+  'analysis.queued': '⏳ Na fila de verificação...',
+  'analysis.checking': '🔍 Verificando fatos...',
+  'analysis.rateLimitRetry': '⏳ Limite de quota atingido. Nova tentativa ({attempt}) em {seconds}s...',
+  'analysis.rateLimitFailed': 'Limite de quota excedido após várias tentativas.',
+  'analysis.connectionFailed': 'Erro ao conectar com serviço de verificação.',
+  'analysis.quotaExceeded': 'Limite de uso de IA desta sessão atingido.',
+  'analysis.budgetPaused': '⏸ Orçamento da sessão esgotado. Verificação pausada até o teto ser ajustado.',
+  'analysis.parseFailed': 'Não foi possível ler a resposta da IA após novas tentativas.',
+
+  'card.negativeTone': 'Tom negativo',
+  'card.positiveTone': 'Tom positivo',
+  'card.neutralTone': 'Tom neutro',
+  'card.sentiment': 'Sentimento: {score}',
+  'card.parseFailure': 'Falha de leitura',
+  'card.checkError': 'Erro na verificação',
+  'card.fixSpeaker': 'Corrigir orador',
+  'card.reviewedBy': '{status} por {editor}',
+  'card.aiVerdict': '(IA: {verdict})',
+  'card.session': 'Sessão {sessionId}',
+  'card.repeatToday': 'Afirmação repetida, verificada pela primeira vez às {time}',
+  'card.repeatOn': 'Afirmação repetida, verificada pela primeira vez em {date} às {time}',
+  'card.counterEvidence': 'Contraevidências',
+  'card.retry': 'Tentar novamente',
+  'card.sources': 'Fontes:',
+  'card.reference': 'Referência',
+  'card.internalSource': 'acervo interno',
+  'card.contradiction': 'Contradiz declaração anterior',
+  'card.previouslySaid': 'Em {date}: "{text}"',
+  'card.priorStatements': 'Declarações anteriores do orador ({count})',
+
+  'reviewControls.saveEdit': 'Salvar edição',
+  'reviewControls.editorNote': 'Nota do editor (opcional)',
+  'reviewControls.flagReason': 'Motivo da sinalização',
+  'reviewControls.flag': 'Sinalizar',
+  'reviewControls.approve': 'Aprovar',
+  'reviewControls.editVerdict': 'Editar veredito',
+  'reviewControls.sourcePlaceholder': 'Título | https://fonte',
+
+  'scorecard.title': 'Placar por Orador',
+  'scorecard.empty': 'Nenhuma verificação concluída ainda.',
+  'scorecard.confidence': '{percent}% confiança',
+  'scorecard.timeline': 'Linha do tempo do debate',
+
+  'source.display': 'Tela / aba',
+  'source.device': 'Entrada',
+  'source.file': 'Arquivo',
+  'source.defaultDevice': 'Entrada padrão do sistema',
+  'source.deviceFallback': 'Entrada {index}',
+  'source.showDeviceNames': 'Mostrar nomes dos dispositivos',
+  'source.micDenied': 'Permissão de microfone negada.',
+  'source.playbackRate': 'Velocidade de reprodução',
+  'source.mediaUrl': 'ou cole a URL de um áudio/vídeo',
+
+  'export.title': 'Exportar sessão',
+  'export.markdown': 'Relatório Markdown',
+  'export.html': 'Relatório HTML',
+  'export.json': 'JSON (análises)',
+  'export.csv': 'CSV (planilha)',
+  'export.srt': 'Legendas SRT',
+  'export.vtt': 'Legendas WebVTT',
+  'export.session': 'Sessão {sessionId}',
+  'export.reviewedBy': 'Revisado por {editor}',
+  'export.counterEvidence': 'Contraevidências:',
+  'export.contradiction': 'Contradiz declaração anterior:',
+  'export.sources': 'Fontes:',
+
+  'sessions.title': 'Sessões',
+  'sessions.back': 'Voltar às sessões',
+  'sessions.active': 'Em andamento',
+  'sessions.completed': 'Finalizada',
+  'sessions.transcript': 'Transcrição',
+  'sessions.analyses': 'Análises da Sessão',
+  'sessions.from': 'De',
+  'sessions.to': 'Até',
+  'sessions.status': 'Status',
+  'sessions.all': 'Todas',
+  'sessions.activePlural': 'Em andamento',
+  'sessions.completedPlural': 'Finalizadas',
+  'sessions.empty': 'Nenhuma sessão encontrada.',
+  'sessions.noParticipants': 'Sem participantes cadastrados',
+  'sessions.counts': '{segments} falas · {analyses} verificações',
+
+  'corpus.title': 'Acervo interno',
+  'corpus.empty': 'Nenhum documento no acervo.',
+  'corpus.chunks': '{count} trechos',
+  'corpus.documentTitle': 'Título do documento',
+  'corpus.documentUri': 'Link público (opcional)',
+  'corpus.upload': 'Adicionar ao acervo',
+  'corpus.uploadFailed': 'Falha ao enviar documento.',
+  'corpus.unavailable': 'Acervo indisponível (api offline).',
+
+  'usage.title': 'Consumo de IA',
+  'usage.prompt': 'Entrada',
+  'usage.response': 'Resposta',
+  'usage.total': 'Total',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Custo',
+  'usage.breakdown': 'Entrada {prompt} · resposta {response} · {requests} chamada(s)',
+  'usage.estimatedCost': 'Custo estimado: {cost}',
+  'usage.overBudget': 'orçamento esgotado',
+  'usage.byDay': 'Por dia',
+  'usage.byModel': 'Por modelo',
+  'usage.budget': 'Teto de gasto da sessão (USD)',
+  'usage.noBudget': 'Sem teto (USD)',
+  'usage.saveBudget': 'Salvar teto',
+  'usage.invalidBudget': 'Informe um valor em USD maior ou igual a zero.',
+  'usage.unavailable': 'Consumo indisponível (api offline).',
+
+  'transcript.empty': 'Nenhuma fala transcrita ainda.',
+  'transcript.claims': '{count} afirmação(ões) verificada(s) — clique para ver',
+  'transcript.noClaims': 'Sem afirmações verificáveis',
+  'transcript.edit': 'Corrigir transcrição',
+  'transcript.save': 'Salvar e verificar de novo',
+  'transcript.edited': 'corrigido',
+  'transcript.audioGap': '{seconds}s de áudio perdidos na reconexão',
+  'transcript.original': 'Transcrição original: {text}',
+
+  'viewer.subtitle': 'Acompanhamento ao vivo',
+  'viewer.live': 'AO VIVO',
+  'viewer.connecting': 'CONECTANDO...',
+  'viewer.waiting': 'Aguardando verificações...',
+
+  'overlay.fallbackLabel': 'Checagem',
+};
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,264 @@
+import { AnalysisResult, EvidenceChunk, LogicalFallacy, PriorStatement, Source, VerdictType } from "../types.js";
+import { findFallacy } from "./fallacyTaxonomy.js";
+
+// --- VALIDAÇÃO DAS RESPOSTAS DO MODELO ---
+// Cada campo tem um coercer que converte o valor bruto ou devolve um erro legível.
+// Os erros são reenviados ao modelo na nova tentativa, por isso ficam em linguagem natural.
+// Também roda nas rotas da api/ (por isso as importações com .js).
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+type Coercer<T> = (raw: unknown) => { value: T } | { error: string };
+
+type Schema<T> = { [K in keyof T]-?: Coercer<T[K]> };
+
+export interface AnalysisPayload {
+  verdict: VerdictType;
+  confidence: number;
+  explanation: string;
+  counterEvidence?: string;
+  sentimentScore: number;
+  logicalFallacies: LogicalFallacy[];
+  sources: Source[];
+  // Referência (ex.: "A1") a uma declaração anterior do orador que esta contradiz
+  contradiction?: { ref: string; explanation: string };
+  // Códigos (ex.: "E1") dos trechos do acervo interno usados no veredito
+  evidenceRefs: string[];
+}
+
+export interface ClaimsPayload {
+  claims: { text: string; checkworthiness: number }[];
+}
+
+// --- EXTRATOR DE JSON ---
+// Percorre o texto respeitando strings e escapes, e devolve o primeiro objeto que faz parse
+export function extractJSON(text: string): ValidationResult<unknown> {
+  const cleanText = text.replace(/```json/g, '').replace(/```/g, '');
+  let searchFrom = 0;
+
+  while (searchFrom < cleanText.length) {
+    const startIndex = cleanText.indexOf('{', searchFrom);
+    if (startIndex === -1) break;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let endIndex = -1;
+
+    for (let i = startIndex; i < cleanText.length; i++) {
+      const char = cleanText[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') inString = true;
+      else if (char === '{') depth++;
+      else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          endIndex = i;
+          break;
+        }
+      }
+    }
+
+    if (endIndex === -1) {
+      return { ok: false, errors: ["O objeto JSON está incompleto (chaves não fechadas)."] };
+    }
+
+    try {
+      return { ok: true, value: JSON.parse(cleanText.substring(startIndex, endIndex + 1)) };
+    } catch {
+      searchFrom = startIndex + 1;
+    }
+  }
+
+  return { ok: false, errors: ["Nenhum objeto JSON válido encontrado na resposta."] };
+}
+
+// --- COERCERS ---
+
+const toNumber = (raw: unknown): number | null => {
+  if (typeof raw === 'number' && Number.isFinite(raw)) return raw;
+  if (typeof raw === 'string' && raw.trim()) {
+    const parsed = Number(raw.trim().replace('%', '').replace(',', '.'));
+    if (Number.isFinite(parsed)) return raw.includes('%') ? parsed / 100 : parsed;
+  }
+  return null;
+};
+
+const VERDICT_ALIASES: Record<string, VerdictType> = {
+  VERDADEIRO: VerdictType.TRUE,
+  FALSO: VerdictType.FALSE,
+  ENGANOSO: VerdictType.MISLEADING,
+  OPINIAO: VerdictType.OPINION,
+  OPINIÃO: VerdictType.OPINION,
+  INCONCLUSIVO: VerdictType.UNVERIFIABLE,
+  INVERIFICAVEL: VerdictType.UNVERIFIABLE,
+};
+
+const verdict: Coercer<VerdictType> = (raw) => {
+  if (typeof raw !== 'string') return { error: `"verdict" deve ser uma string; recebido ${JSON.stringify(raw)}.` };
+  const key = raw.trim().toUpperCase();
+  if ((Object.values(VerdictType) as string[]).includes(key)) return { value: key as VerdictType };
+  if (VERDICT_ALIASES[key]) return { value: VERDICT_ALIASES[key] };
+  return { error: `"verdict" inválido (${JSON.stringify(raw)}); use um de ${Object.values(VerdictType).join(", ")}.` };
+};
+
+const confidence: Coercer<number> = (raw) => {
+  const n = toNumber(raw);
+  if (n === null) return { error: `"confidence" deve ser um número entre 0 e 1; recebido ${JSON.stringify(raw)}.` };
+  // Modelos às vezes respondem em porcentagem (ex.: 85)
+  const normalized = n > 1 && n <= 100 ? n / 100 : n;
+  if (normalized < 0 || normalized > 1) return { error: `"confidence" fora do intervalo 0–1 (${n}).` };
+  return { value: normalized };
+};
+
+const sentimentScore: Coercer<number> = (raw) => {
+  if (raw === undefined || raw === null) return { value: 0 };
+  const n = toNumber(raw);
+  if (n === null) return { error: `"sentimentScore" deve ser um número entre -1 e 1; recebido ${JSON.stringify(raw)}.` };
+  return { value: Math.max(-1, Math.min(1, n)) };
+};
+
+const requiredText = (field: string): Coercer<string> => (raw) => {
+  if (typeof raw !== 'string' || !raw.trim()) return { error: `"${field}" deve ser um texto não vazio.` };
+  return { value: raw.trim() };
+};
+
+const optionalText: Coercer<string | undefined> = (raw) => {
+  if (raw === undefined || raw === null) return { value: undefined };
+  if (typeof raw !== 'string') return { error: `"counterEvidence" deve ser um texto.` };
+  return { value: raw.trim() || undefined };
+};
+
+// Só falácias da taxonomia fixa são aceitas; ids desconhecidos são descartados
+const logicalFallacies: Coercer<LogicalFallacy[]> = (raw) => {
+  if (raw === undefined || raw === null) return { value: [] };
+  if (!Array.isArray(raw)) return { error: `"logicalFallacies" deve ser uma lista.` };
+  const value: LogicalFallacy[] = [];
+  for (const item of raw) {
+    const key = typeof item === 'string' ? item : (item as any)?.id || (item as any)?.name;
+    if (typeof key !== 'string') {
+      return { error: `Cada item de "logicalFallacies" deve ter o "id" de uma falácia da lista.` };
+    }
+    const fallacy = findFallacy(key);
+    if (fallacy && !value.some(f => f.id === fallacy.id)) value.push(fallacy);
+  }
+  return { value };
+};
+
+const sources: Coercer<Source[]> = (raw) => {
+  if (raw === undefined || raw === null) return { value: [] };
+  if (!Array.isArray(raw)) return { error: `"sources" deve ser uma lista.` };
+  // Fontes sem URL http(s) válida são descartadas em vez de invalidar a resposta inteira
+  const value = raw
+    .filter(item => item && typeof item === 'object' && typeof (item as any).uri === 'string')
+    .filter(item => /^https?:\/\//i.test((item as any).uri))
+    .map(item => ({ uri: (item as any).uri, title: String((item as any).title || (item as any).uri) }));
+  return { value };
+};
+
+// Ausente ou null quando não há contradição com declarações anteriores
+const contradiction: Coercer<AnalysisPayload['contradiction']> = (raw) => {
+  if (raw === undefined || raw === null || raw === false) return { value: undefined };
+  const ref = (raw as any)?.ref;
+  const explanation = (raw as any)?.explanation;
+  if (typeof ref !== 'string' || !ref.trim()) {
+    return { error: `"contradiction" deve ser null ou ter "ref" com o código da declaração anterior (ex.: "A1").` };
+  }
+  if (typeof explanation !== 'string' || !explanation.trim()) {
+    return { error: `"contradiction.explanation" deve explicar a contradição.` };
+  }
+  return { value: { ref: ref.trim().toUpperCase(), explanation: explanation.trim() } };
+};
+
+const evidenceRefs: Coercer<string[]> = (raw) => {
+  if (raw === undefined || raw === null) return { value: [] };
+  if (!Array.isArray(raw)) return { error: `"evidenceRefs" deve ser uma lista de códigos do acervo (ex.: ["E1"]).` };
+  return { value: raw.filter(ref => typeof ref === 'string').map(ref => ref.trim().toUpperCase()) };
+};
+
+const ANALYSIS_SCHEMA: Schema<AnalysisPayload> = {
+  verdict,
+  confidence,
+  explanation: requiredText('explanation'),
+  counterEvidence: optionalText,
+  sentimentScore,
+  logicalFallacies,
+  sources,
+  contradiction,
+  evidenceRefs,
+};
+
+function validateWithSchema<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ["A resposta deve ser um objeto JSON."] };
+  }
+
+  const errors: string[] = [];
+  const value = {} as T;
+  for (const key of Object.keys(schema) as (keyof T)[]) {
+    const result = schema[key]((input as any)[key]);
+    if ('error' in result) errors.push(result.error);
+    else value[key] = result.value;
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+export const validateAnalysisPayload = (input: unknown) => validateWithSchema(ANALYSIS_SCHEMA, input);
+
+// Códigos com que as declarações anteriores do orador aparecem no prompt (A1, A2, ...)
+export const priorStatementRef = (index: number) => `A${index + 1}`;
+
+// Troca o código citado pelo modelo pela declaração anterior; códigos desconhecidos são ignorados
+export function resolveContradiction(
+  payload: AnalysisPayload,
+  priorStatements: PriorStatement[]
+): AnalysisResult['contradiction'] {
+  if (!payload.contradiction) return undefined;
+  const { ref, explanation } = payload.contradiction;
+  const previous = priorStatements.find((_, i) => priorStatementRef(i) === ref);
+  return previous ? { segmentId: previous.segmentId, explanation } : undefined;
+}
+
+export function validateClaimsPayload(input: unknown): ValidationResult<ClaimsPayload> {
+  const claims = (input as any)?.claims;
+  if (!Array.isArray(claims)) return { ok: false, errors: [`"claims" deve ser uma lista.`] };
+
+  const errors: string[] = [];
+  const value = claims.flatMap((c: any, i: number) => {
+    const text = requiredText(`claims[${i}].text`)(c?.text);
+    const score = confidence(c?.checkworthiness);
+    if ('error' in text) { errors.push(text.error); return []; }
+    if ('error' in score) { errors.push(score.error.replace('"confidence"', `"claims[${i}].checkworthiness"`)); return []; }
+    return [{ text: text.value, checkworthiness: score.value }];
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: { claims: value } };
+}
+
+// Extrai e valida em um passo só
+export function parseModelResponse<T>(
+  text: string,
+  validate: (input: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  const json = extractJSON(text);
+  return 'errors' in json ? json : validate(json.value);
+}
+
+// Códigos dos trechos do acervo interno no prompt (E1, E2, ...)
+export const evidenceRef = (index: number) => `E${index + 1}`;
+
+// Trechos citados pelo modelo viram fontes "acervo interno", uma por documento
+export function resolveEvidenceSources(payload: AnalysisPayload, evidence: EvidenceChunk[]): Source[] {
+  const cited = evidence.filter((_, i) => payload.evidenceRefs.includes(evidenceRef(i)));
+  return cited
+    .filter((chunk, i) => cited.findIndex(c => c.documentId === chunk.documentId) === i)
+    .map(chunk => ({ title: chunk.title, uri: chunk.uri || '', internal: true }));
+}
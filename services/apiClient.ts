@@ -0,0 +1,31 @@
+// --- CLIENTE DA API ---
+// Todas as chamadas à api/ passam por aqui para levar o token da conta logada.
+// A exceção é o feed ao vivo (EventSource não envia cabeçalhos), que é público.
+
+const TOKEN_STORAGE_KEY = 'api_token';
+
+type UnauthorizedListener = () => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+export const getApiToken = () => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setApiToken = (token: string | null) => {
+  if (token) localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  else localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+// Avisado quando a api recusa o token (expirado, revogado ou ausente)
+export const onUnauthorized = (listener: UnauthorizedListener): (() => void) => {
+  unauthorizedListeners.add(listener);
+  return () => { unauthorizedListeners.delete(listener); };
+};
+
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getApiToken();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(path, { ...init, headers });
+  if (response.status === 401) unauthorizedListeners.forEach(listener => listener());
+  return response;
+};
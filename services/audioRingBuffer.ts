@@ -0,0 +1,39 @@
+// --- BUFFER CIRCULAR DE ÁUDIO ---
+// Guarda o PCM (16 kHz) capturado enquanto a conexão ao vivo está fora, até maxMs.
+// Cheio, descarta os blocos mais antigos e contabiliza quanto áudio foi perdido.
+
+const SAMPLES_PER_MS = 16;
+
+export interface AudioRingBuffer {
+  push: (pcm: Int16Array) => void;
+  // Blocos guardados (mais antigos primeiro) e o áudio descartado desde o último drain; esvazia o buffer
+  drain: () => { chunks: Int16Array[]; droppedMs: number };
+  bufferedMs: () => number;
+}
+
+export const createAudioRingBuffer = (maxMs: number): AudioRingBuffer => {
+  const capacity = maxMs * SAMPLES_PER_MS;
+  let chunks: Int16Array[] = [];
+  let bufferedSamples = 0;
+  let droppedSamples = 0;
+
+  return {
+    push: (pcm) => {
+      chunks.push(pcm);
+      bufferedSamples += pcm.length;
+      while (bufferedSamples > capacity && chunks.length > 0) {
+        const oldest = chunks.shift()!;
+        bufferedSamples -= oldest.length;
+        droppedSamples += oldest.length;
+      }
+    },
+    drain: () => {
+      const drained = { chunks, droppedMs: Math.round(droppedSamples / SAMPLES_PER_MS) };
+      chunks = [];
+      bufferedSamples = 0;
+      droppedSamples = 0;
+      return drained;
+    },
+    bufferedMs: () => Math.round(bufferedSamples / SAMPLES_PER_MS),
+  };
+};
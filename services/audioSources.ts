@@ -0,0 +1,170 @@
+// --- FONTES DE ÁUDIO ---
+// Arquivos gravados e URLs de mídia viram um MediaStream comum, para passar pelo mesmo
+// pipeline (PCMProcessor -> connectToLiveDebate) da captura de tela.
+
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Arquivo local ou URL de áudio/vídeo
+export type MediaInput = File | string;
+
+export interface FileAudioSource {
+  stream: MediaStream;
+  // Infinity para transmissões sem duração conhecida
+  duration: number;
+  // Posição atual na mídia, em segundos (já considera a velocidade)
+  getMediaTime: () => number;
+  onEnded: (callback: () => void) => void;
+  stop: () => Promise<void>;
+}
+
+// Espera os metadados (duração) ou falha no carregamento
+const waitForMetadata = (element: HTMLMediaElement) => new Promise<void>((resolve, reject) => {
+  element.onloadedmetadata = () => resolve();
+  element.onerror = () => reject(new Error(element.error?.message || "Falha ao carregar a mídia"));
+});
+
+// A mídia toca num <video> (que também aceita só áudio): o navegador lê o arquivo aos poucos
+// em vez de decodificar a gravação inteira na memória, e preservesPitch mantém o tom em 1.5x/2x.
+// URLs de outra origem precisam de CORS: sem ele o navegador recusa a mídia no crossOrigin anônimo.
+export const createFileAudioSource = async (input: MediaInput, playbackRate: number = 1): Promise<FileAudioSource> => {
+  const objectUrl = typeof input === 'string' ? null : URL.createObjectURL(input);
+  const element = document.createElement('video');
+  element.crossOrigin = 'anonymous';
+  element.preload = 'auto';
+  element.preservesPitch = true;
+  element.src = objectUrl || (input as string);
+
+  const audioContext = new AudioContext();
+  const release = async () => {
+    element.pause();
+    element.removeAttribute('src');
+    element.load();
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    if (audioContext.state !== 'closed') await audioContext.close();
+  };
+
+  try {
+    await waitForMetadata(element);
+  } catch (e) {
+    await release();
+    throw e;
+  }
+  if (audioContext.state === 'suspended') await audioContext.resume();
+
+  // Com a fonte no AudioContext, o elemento deixa de tocar nos alto-falantes
+  const sourceNode = audioContext.createMediaElementSource(element);
+  const destination = audioContext.createMediaStreamDestination();
+  sourceNode.connect(destination);
+
+  element.playbackRate = playbackRate;
+  await element.play();
+
+  let endedCallback: (() => void) | null = null;
+  let stopped = false;
+  element.onended = () => {
+    if (!stopped) endedCallback?.();
+  };
+
+  return {
+    stream: destination.stream,
+    duration: element.duration,
+    getMediaTime: () => element.currentTime,
+    onEnded: (callback) => { endedCallback = callback; },
+    stop: async () => {
+      stopped = true;
+      destination.stream.getTracks().forEach(t => t.stop());
+      await release();
+    }
+  };
+};
+
+// --- SELEÇÃO DA ENTRADA ---
+
+export type InputSourceKind = 'display' | 'device' | 'file';
+
+export interface InputSourceSelection {
+  kind: InputSourceKind;
+  // Só para 'device': id da entrada (ex.: interface de áudio com a saída da mesa)
+  deviceId?: string;
+}
+
+export interface AudioInputDevice {
+  deviceId: string;
+  // Vazio enquanto o navegador não libera os nomes
+  label: string;
+}
+
+const SELECTION_STORAGE_KEY = 'factcheck.inputSource';
+const DEFAULT_SELECTION: InputSourceSelection = { kind: 'display' };
+
+// Restrições por tipo de fonte. Aba/tela e mesa de som chegam já mixadas:
+// qualquer processamento do navegador só degrada a transcrição.
+const AUDIO_CONSTRAINTS: Record<'display' | 'device', MediaTrackConstraints> = {
+  display: {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    sampleRate: 48000
+  },
+  device: {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    channelCount: 1,
+    sampleRate: 48000
+  }
+};
+
+export const loadInputSelection = (): InputSourceSelection => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SELECTION_STORAGE_KEY) || 'null');
+    if (stored && ['display', 'device', 'file'].includes(stored.kind)) return stored;
+  } catch (e) {
+    // valor corrompido: volta ao padrão
+  }
+  return DEFAULT_SELECTION;
+};
+
+export const saveInputSelection = (selection: InputSourceSelection) => {
+  localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+};
+
+// Os rótulos só vêm preenchidos depois que o usuário concede acesso ao microfone
+export const listAudioInputDevices = async (): Promise<AudioInputDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'audioinput')
+    .map(d => ({ deviceId: d.deviceId, label: d.label }));
+};
+
+// Pede permissão de microfone só para liberar os nomes dos dispositivos
+export const unlockDeviceLabels = async (): Promise<AudioInputDevice[]> => {
+  const probe = await navigator.mediaDevices.getUserMedia({ audio: true });
+  probe.getTracks().forEach(t => t.stop());
+  return listAudioInputDevices();
+};
+
+export const captureDisplayAudio = async (): Promise<MediaStream> =>
+  navigator.mediaDevices.getDisplayMedia({
+    // O navegador exige uma trilha de vídeo; 1x1 para não gastar banda
+    video: { width: 1, height: 1 },
+    audio: AUDIO_CONSTRAINTS.display,
+    systemAudio: 'include'
+  } as any);
+
+// Entrada salva que sumiu (interface desconectada): cai no dispositivo padrão e avisa
+// quem chamou para esquecer a seleção, em vez de falhar com OverconstrainedError
+export const captureDeviceAudio = async (deviceId?: string, onDeviceMissing?: () => void): Promise<MediaStream> => {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...AUDIO_CONSTRAINTS.device, deviceId: { exact: deviceId } }
+      });
+    } catch (e: any) {
+      if (e?.name !== 'OverconstrainedError' && e?.name !== 'NotFoundError') throw e;
+      onDeviceMissing?.();
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: AUDIO_CONSTRAINTS.device });
+};
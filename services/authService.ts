@@ -0,0 +1,71 @@
+import { Account, ApiTokenInfo } from '../types';
+import { apiFetch, setApiToken } from './apiClient';
+
+const API_BASE = '/api/auth';
+
+export interface RegistrationData {
+  organization: string;
+  name: string;
+  email: string;
+  password: string;
+}
+
+const postJson = async (path: string, body: unknown) => {
+  const response = await apiFetch(`${API_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Falha na autenticação (${response.status})`);
+  return data;
+};
+
+export const login = async (email: string, password: string): Promise<Account> => {
+  const data = await postJson('login', { email, password });
+  setApiToken(data.token);
+  return data.account;
+};
+
+export const register = async (registration: RegistrationData): Promise<Account> => {
+  const data = await postJson('register', registration);
+  setApiToken(data.token);
+  return data.account;
+};
+
+export const logout = async () => {
+  try {
+    await apiFetch(`${API_BASE}/me`, { method: 'DELETE' });
+  } catch (e) {
+    console.warn("Falha ao revogar o token no logout", e);
+  }
+  setApiToken(null);
+};
+
+// null quando não há token ou ele não vale mais
+export const fetchAccount = async (): Promise<Account | null> => {
+  try {
+    const response = await apiFetch(`${API_BASE}/me`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.account;
+  } catch {
+    return null;
+  }
+};
+
+export const fetchApiTokens = async (): Promise<ApiTokenInfo[]> => {
+  const response = await apiFetch(`${API_BASE}/tokens`);
+  if (!response.ok) throw new Error(`Falha ao listar tokens (${response.status})`);
+  const data = await response.json();
+  return data.tokens || [];
+};
+
+// O valor do token só existe nesta resposta
+export const createApiToken = async (name: string): Promise<{ token: string; info: ApiTokenInfo }> =>
+  postJson('tokens', { name });
+
+export const revokeApiToken = async (tokenId: string) => {
+  const response = await apiFetch(`${API_BASE}/tokens?id=${encodeURIComponent(tokenId)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(`Falha ao revogar token (${response.status})`);
+};
@@ -0,0 +1,72 @@
+import { AnalysisResult } from '../types';
+import { findMostSimilar, normalizeClaim } from './claimMatching';
+import { apiFetch } from './apiClient';
+
+// --- CACHE DE VERIFICAÇÕES ---
+// Candidatos repetem os mesmos pontos várias vezes; uma afirmação equivalente
+// a outra já verificada reaproveita o veredito em vez de gastar quota.
+
+const SIMILARITY_THRESHOLD = 0.8;
+
+export interface CachedClaim {
+  key: string;
+  text: string;
+  sessionId: string;
+  checkedAt: number;
+  analysis: AnalysisResult;
+}
+
+export interface ClaimCache {
+  lookup: (text: string) => CachedClaim | null;
+  remember: (entry: CachedClaim) => void;
+  prime: (entries: CachedClaim[]) => void;
+  // Revisão do editor na verificação original: null tira a entrada do cache (sinalizada)
+  revise: (segmentId: string, analysis: AnalysisResult | null) => void;
+}
+
+export const createClaimCache = (): ClaimCache => {
+  const entries = new Map<string, CachedClaim>();
+
+  // Mantém sempre a primeira verificação de cada afirmação
+  const remember = (entry: CachedClaim) => {
+    const existing = entries.get(entry.key);
+    if (!existing || existing.checkedAt > entry.checkedAt) entries.set(entry.key, entry);
+  };
+
+  return {
+    lookup: (text) => {
+      const exact = entries.get(normalizeClaim(text));
+      if (exact) return exact;
+      const similar = findMostSimilar(text, Array.from(entries.values()), e => e.text, SIMILARITY_THRESHOLD);
+      return similar ? similar.candidate : null;
+    },
+    remember,
+    prime: (list) => list.forEach(remember),
+    revise: (segmentId, analysis) => {
+      for (const [key, entry] of entries) {
+        if (entry.analysis.segmentId !== segmentId) continue;
+        if (analysis) entries.set(key, { ...entry, analysis });
+        else entries.delete(key);
+      }
+    },
+  };
+};
+
+// Verificações de sessões anteriores, gravadas em analysis_logs
+export const loadPersistedClaims = async (): Promise<CachedClaim[]> => {
+  try {
+    const response = await apiFetch('/api/logs/claims');
+    if (!response.ok) return [];
+    const data = await response.json();
+    return (data.claims || []).map((c: any) => ({
+      key: c.key,
+      text: c.text,
+      sessionId: c.sessionId,
+      checkedAt: new Date(c.checkedAt).getTime(),
+      analysis: c.analysis
+    }));
+  } catch (e) {
+    console.error("Falha ao carregar cache de afirmações", e);
+    return [];
+  }
+};
@@ -0,0 +1,86 @@
+// --- NORMALIZAÇÃO E SIMILARIDADE DE AFIRMAÇÕES ---
+// Módulo puro: usado no cliente (cache de verificações) e nas rotas da api/.
+
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'na',
+  'nos', 'nas', 'por', 'para', 'pra', 'e', 'ou', 'que', 'se', 'ao', 'aos', 'eu', 'nos',
+  'voce', 'voces', 'ele', 'ela', 'eles', 'elas', 'isso', 'isto', 'esse', 'essa', 'este', 'esta', 'aquele',
+  'aquela', 'foi', 'ser', 'sao', 'era', 'ja', 'mais', 'muito', 'bem', 'entao', 'tambem', 'so', 'la', 'aqui',
+  'nosso', 'nossa', 'meu', 'minha', 'seu', 'sua', 'the', 'of', 'and', 'to', 'in', 'is', 'el', 'la', 'los',
+  'las', 'y', 'en', 'del'
+]);
+
+// Negações e pares como com/sem invertem a afirmação: nunca são palavras vazias
+// e, como os números, precisam coincidir dos dois lados
+const POLARITY_WORDS = new Set([
+  'nao', 'nunca', 'jamais', 'nem', 'nenhum', 'nenhuma', 'nada', 'ninguem', 'sem', 'com',
+  'no', 'sin', 'con', 'ningun', 'ninguno', 'ninguna', 'nadie', 'tampoco',
+  'not', 'never', 'none', 'nobody', 'nothing', 'nor', 'without', 'with'
+]);
+
+const isPolarityWord = (token: string) => POLARITY_WORDS.has(token);
+
+// Acentos, pontuação, caixa e palavras vazias não mudam a afirmação
+export function normalizeClaim(text: string): string {
+  return claimTokens(text).join(' ');
+}
+
+export function claimTokens(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/n['\u2019]t\b/g, ' not')
+    // Separador de milhar some ("3.500" = "3,500" = "3500"); o decimal vira "d" para que 3,5% ≠ 35%
+    .replace(/(\d)[.,](?=\d{3}\b)/g, '$1')
+    .replace(/(\d)[.,](?=\d)/g, '$1d')
+    .replace(/[^a-z0-9%\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !STOPWORDS.has(token));
+}
+
+// Jaccard entre os conjuntos de tokens; números ou negações diferentes tornam as afirmações distintas
+// ("desemprego caiu para 3%" ≠ "desemprego caiu para 7%", "caiu" ≠ "não caiu")
+export function claimSimilarity(a: string, b: string): number {
+  const tokensA = new Set(claimTokens(a));
+  const tokensB = new Set(claimTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const numbersA = [...tokensA].filter(t => /\d/.test(t)).sort().join(' ');
+  const numbersB = [...tokensB].filter(t => /\d/.test(t)).sort().join(' ');
+  if (numbersA !== numbersB) return 0;
+
+  const polarityA = [...tokensA].filter(isPolarityWord).sort().join(' ');
+  const polarityB = [...tokensB].filter(isPolarityWord).sort().join(' ');
+  if (polarityA !== polarityB) return 0;
+
+  const intersection = [...tokensA].filter(t => tokensB.has(t)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+// Mesmo assunto, independentemente dos números e negações: "desemprego caiu para 3%" e
+// "desemprego não caiu" são comparáveis quando o objetivo é achar contradições de um orador
+export function topicSimilarity(a: string, b: string): number {
+  const tokensA = new Set(claimTokens(a).filter(t => !/\d/.test(t) && !isPolarityWord(t)));
+  const tokensB = new Set(claimTokens(b).filter(t => !/\d/.test(t) && !isPolarityWord(t)));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const intersection = [...tokensA].filter(t => tokensB.has(t)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+export function findMostSimilar<T>(
+  text: string,
+  candidates: T[],
+  getText: (candidate: T) => string,
+  threshold: number
+): { candidate: T; similarity: number } | null {
+  let best: { candidate: T; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = claimSimilarity(text, getText(candidate));
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity };
+    }
+  }
+  return best;
+}
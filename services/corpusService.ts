@@ -0,0 +1,48 @@
+import { CorpusDocument, EvidenceChunk, Language } from '../types';
+import { apiFetch } from './apiClient';
+
+const API_BASE = '/api/corpus';
+
+export interface CorpusUpload {
+  title: string;
+  content: string;
+  uri?: string;
+  language: Language;
+}
+
+export const fetchCorpusDocuments = async (): Promise<CorpusDocument[]> => {
+  const response = await apiFetch(`${API_BASE}/documents`);
+  if (!response.ok) throw new Error(`Falha ao listar o acervo (${response.status})`);
+  const data = await response.json();
+  return data.documents || [];
+};
+
+export const uploadCorpusDocument = async (upload: CorpusUpload): Promise<CorpusDocument> => {
+  const response = await apiFetch(`${API_BASE}/documents`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(upload)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Falha ao enviar documento (${response.status})`);
+  return data.document;
+};
+
+export const deleteCorpusDocument = async (documentId: string): Promise<void> => {
+  const response = await apiFetch(`${API_BASE}/documents?id=${encodeURIComponent(documentId)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(`Falha ao remover documento (${response.status})`);
+};
+
+// Trechos do acervo para uma afirmação; sem acervo (ou sem api) a verificação usa só a web
+export const searchEvidence = async (claim: string, language: Language): Promise<EvidenceChunk[]> => {
+  const params = new URLSearchParams({ q: claim, language });
+  try {
+    const response = await apiFetch(`${API_BASE}/search?${params.toString()}`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.evidence || [];
+  } catch (e) {
+    console.warn("Falha ao consultar o acervo interno", e);
+    return [];
+  }
+};
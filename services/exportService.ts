@@ -0,0 +1,186 @@
+import { AnalysisResult, DEFAULT_LANGUAGE, DebateSegment, Language, SessionSummary, UNKNOWN_SPEAKER } from '../types';
+import { createTranslator, Translator, verdictKey } from './i18n';
+
+// --- EXPORTAÇÃO DE SESSÕES ---
+// Relatórios para publicação (Markdown/HTML), dados brutos (JSON/CSV) e legendas (SRT/WebVTT).
+// Rótulos saem no idioma da interface de quem exporta.
+
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'csv' | 'srt' | 'vtt';
+
+export interface ExportableSession {
+  session?: SessionSummary;
+  sessionId: string;
+  segments: DebateSegment[];
+  analyses: AnalysisResult[];
+}
+
+// Legenda mínima na tela e tempo estimado de leitura por palavra
+const MIN_CUE_MS = 2000;
+const MS_PER_WORD = 400;
+
+const speakerLabel = (t: Translator, speaker?: string) => !speaker || speaker === UNKNOWN_SPEAKER ? t('common.unknownSpeaker') : speaker;
+
+// Veredito sinalizado pelo editor ou substituído por nova fala não sai em nenhum formato publicável
+const isPublishable = (a: AnalysisResult) => !a.superseded && a.review?.status !== 'FLAGGED';
+
+// Só entram em relatórios as verificações concluídas
+const finishedAnalyses = (analyses: AnalysisResult[]) =>
+  analyses
+    .filter(a => (!a.status || a.status === 'DONE') && isPublishable(a))
+    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+const chronological = (segments: DebateSegment[]) => [...segments].sort((a, b) => a.timestamp - b.timestamp);
+
+const sessionTitle = (data: ExportableSession, t: Translator) => {
+  const names = data.session?.participants.map(p => p.name).join(' × ');
+  const date = data.session?.startedAt ? new Date(data.session.startedAt).toLocaleString() : '';
+  return [names || t('export.session', { sessionId: data.sessionId }), date].filter(Boolean).join(' — ');
+};
+
+export function toMarkdown(data: ExportableSession, language: Language = DEFAULT_LANGUAGE): string {
+  const t = createTranslator(language);
+  const lines = [`# Fact-check: ${sessionTitle(data, t)}`, ''];
+
+  finishedAnalyses(data.analyses).forEach((a, i) => {
+    lines.push(`## ${i + 1}. ${t(verdictKey(a.verdict))} — ${speakerLabel(t, a.speaker)}`);
+    lines.push('', `> ${a.context?.[0] || ''}`, '', a.explanation, '');
+    if (a.review) lines.push(`_${t('export.reviewedBy', { editor: a.review.editor })}_`, '');
+    if (a.counterEvidence) lines.push(`**${t('export.counterEvidence')}** ${a.counterEvidence}`, '');
+    if (a.contradiction) lines.push(`**${t('export.contradiction')}** ${a.contradiction.explanation}`, '');
+    if (a.sources.length > 0) {
+      lines.push(`**${t('export.sources')}**`);
+      a.sources.forEach(s => lines.push(`- ${s.uri ? `[${s.title || s.uri}](${s.uri})` : s.title}${s.internal ? ` _(${t('card.internalSource')})_` : ''}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function toHtml(data: ExportableSession, language: Language = DEFAULT_LANGUAGE): string {
+  const t = createTranslator(language);
+  const items = finishedAnalyses(data.analyses).map(a => `
+    <article>
+      <h2>${escapeHtml(t(verdictKey(a.verdict)))} — ${escapeHtml(speakerLabel(t, a.speaker))}</h2>
+      <blockquote>${escapeHtml(a.context?.[0] || '')}</blockquote>
+      <p>${escapeHtml(a.explanation)}</p>
+      ${a.counterEvidence ? `<p><strong>${escapeHtml(t('export.counterEvidence'))}</strong> ${escapeHtml(a.counterEvidence)}</p>` : ''}
+      ${a.contradiction ? `<p><strong>${escapeHtml(t('export.contradiction'))}</strong> ${escapeHtml(a.contradiction.explanation)}</p>` : ''}
+      ${a.sources.length > 0 ? `<ul>${a.sources.map(s => `<li>${s.uri ? `<a href="${escapeHtml(s.uri)}">${escapeHtml(s.title || s.uri)}</a>` : escapeHtml(s.title)}${s.internal ? ` <em>(${escapeHtml(t('card.internalSource'))})</em>` : ''}</li>`).join('')}</ul>` : ''}
+    </article>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head><meta charset="UTF-8"><title>${escapeHtml(sessionTitle(data, t))}</title></head>
+<body>
+  <h1>Fact-check: ${escapeHtml(sessionTitle(data, t))}</h1>
+  ${items}
+</body>
+</html>`;
+}
+
+export function toJson(data: ExportableSession): string {
+  return JSON.stringify(data.analyses, null, 2);
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(data: ExportableSession, language: Language = DEFAULT_LANGUAGE): string {
+  const t = createTranslator(language);
+  const header = ['segment_id', 'timestamp', 'speaker', 'claim', 'verdict', 'confidence', 'explanation', 'sources', 'status'];
+  const rows = data.analyses
+    .filter(isPublishable)
+    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+    .map(a => [
+      a.segmentId,
+      a.timestamp ? new Date(a.timestamp).toISOString() : '',
+      speakerLabel(t, a.speaker),
+      a.context?.[0] || '',
+      a.verdict,
+      a.confidence,
+      a.explanation,
+      a.sources.map(s => s.uri || s.title).join(' '),
+      a.status || 'DONE'
+    ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// --- LEGENDAS ---
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function buildCues(data: ExportableSession, t: Translator): Cue[] {
+  // Entradas só com o marcador de lacuna não viram legenda
+  const segments = chronological(data.segments.filter(s => s.text));
+  if (segments.length === 0) return [];
+
+  const analyses = finishedAnalyses(data.analyses);
+
+  // Arquivos gravados têm o tempo da própria mídia; captura ao vivo usa o relógio desde a primeira fala
+  const useMediaTime = segments.every(s => typeof s.mediaTime === 'number');
+  const origin = segments[0].timestamp;
+  const offsetOf = (segment: DebateSegment) => useMediaTime ? segment.mediaTime! * 1000 : segment.timestamp - origin;
+
+  return segments.map((segment, i) => {
+    const start = offsetOf(segment);
+    const readingTime = Math.max(MIN_CUE_MS, segment.text.split(/\s+/).length * MS_PER_WORD);
+    const next = segments[i + 1];
+    const end = next ? Math.min(start + readingTime, offsetOf(next)) : start + readingTime;
+
+    const verdicts = analyses
+      .filter(a => a.parentSegmentId === segment.id)
+      .map(a => `[${t(verdictKey(a.verdict)).toUpperCase()}] ${a.context?.[0] || ''}`);
+
+    const line = segment.speaker !== UNKNOWN_SPEAKER ? `${segment.speaker}: ${segment.text}` : segment.text;
+    return { start, end: Math.max(end, start + 500), text: [line, ...verdicts].join('\n') };
+  });
+}
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const pad = (n: number, size = 2) => String(Math.floor(n)).padStart(size, '0');
+  return `${pad(ms / 3600000)}:${pad((ms % 3600000) / 60000)}:${pad((ms % 60000) / 1000)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export function toSrt(data: ExportableSession, language: Language = DEFAULT_LANGUAGE): string {
+  return buildCues(data, createTranslator(language))
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(data: ExportableSession, language: Language = DEFAULT_LANGUAGE): string {
+  const body = buildCues(data, createTranslator(language))
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+const EXPORTERS: Record<ExportFormat, { build: (data: ExportableSession, language: Language) => string; extension: string; mime: string }> = {
+  markdown: { build: toMarkdown, extension: 'md', mime: 'text/markdown' },
+  html: { build: toHtml, extension: 'html', mime: 'text/html' },
+  json: { build: toJson, extension: 'json', mime: 'application/json' },
+  csv: { build: toCsv, extension: 'csv', mime: 'text/csv' },
+  srt: { build: toSrt, extension: 'srt', mime: 'application/x-subrip' },
+  vtt: { build: toWebVtt, extension: 'vtt', mime: 'text/vtt' },
+};
+
+export const downloadExport = (data: ExportableSession, format: ExportFormat, language: Language = DEFAULT_LANGUAGE) => {
+  const exporter = EXPORTERS[format];
+  const blob = new Blob([exporter.build(data, language)], { type: `${exporter.mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sessao-${data.sessionId}.${exporter.extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,82 @@
+import type { AnalysisResult, Claim, Language, Participant, VerificationContext } from "../types";
+import type { MessageKey, TranslationParams } from "./i18n";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+// --- TIPOS ---
+export type LiveStatus = {
+  type: 'info' | 'warning' | 'error';
+  message: string;
+};
+
+// Provedores emitem a chave da mensagem; a interface traduz no idioma de quem opera
+export type LiveStatusEvent = {
+  type: LiveStatus['type'];
+  key: MessageKey;
+  params?: TranslationParams;
+};
+
+// FAILED: desistiu de reconectar depois do número máximo de tentativas
+export type LiveConnectionState = 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' | 'DISCONNECTED' | 'FAILED';
+
+export interface LiveConnectionController {
+    disconnect: () => Promise<void>;
+    getState: () => LiveConnectionState;
+    // Devolve a função que cancela a inscrição
+    onStateChange: (listener: (state: LiveConnectionState) => void) => () => void;
+}
+
+// audioGapMs: áudio perdido numa queda da conexão antes desta fala (só em falas finais).
+// Lacuna sem fala depois (conexão encerrada) chega numa fala final de texto vazio.
+export type TranscriptHandler = (data: { text: string; speaker: string; isFinal: boolean; audioGapMs?: number }) => void;
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Contrato comum de transcrição + verificação implementado por cada backend.
+// sessionId identifica a sessão para as quotas e a contabilidade de uso no servidor.
+export interface FactCheckProvider {
+  id: ProviderId;
+  label: string;
+  // Provedores offline geram a transcrição sozinhos, sem capturar áudio
+  requiresAudioCapture: boolean;
+  connectToLiveDebate: (
+    sessionId: string,
+    stream: MediaStream | null,
+    onTranscript: TranscriptHandler,
+    onError: (err: Error) => void,
+    onStatus?: (status: LiveStatusEvent) => void,
+    participants?: Participant[],
+    language?: Language
+  ) => Promise<LiveConnectionController>;
+  extractClaims: (
+    sessionId: string,
+    text: string,
+    speaker?: string,
+    contextHistory?: string[],
+    language?: Language
+  ) => Promise<Omit<Claim, 'id'>[]>;
+  analyzeStatement: (
+    sessionId: string,
+    text: string,
+    segmentId: string,
+    contextHistory?: string[],
+    speaker?: string,
+    language?: Language,
+    verification?: VerificationContext
+  ) => Promise<AnalysisResult>;
+}
+
+const PROVIDERS: Record<ProviderId, FactCheckProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Seleciona o provedor pela variável FACTCHECK_PROVIDER (padrão: gemini)
+export const getFactCheckProvider = (): FactCheckProvider => {
+  const id = (process.env.FACTCHECK_PROVIDER || 'gemini').toLowerCase() as ProviderId;
+  if (!PROVIDERS[id]) {
+    console.warn(`Provedor desconhecido "${id}", usando gemini.`);
+    return PROVIDERS.gemini;
+  }
+  return PROVIDERS[id];
+};
@@ -0,0 +1,30 @@
+import { LogicalFallacy } from "../types.js";
+
+// --- TAXONOMIA FIXA DE FALÁCIAS ---
+// O modelo só pode responder ids desta lista; nome e descrição exibidos vêm daqui.
+export const FALLACY_TAXONOMY: Required<LogicalFallacy>[] = [
+  { id: 'AD_HOMINEM', name: 'Ad hominem', description: 'Ataca a pessoa em vez de responder ao argumento.' },
+  { id: 'STRAW_MAN', name: 'Espantalho', description: 'Distorce a posição do adversário para refutá-la com facilidade.' },
+  { id: 'FALSE_DILEMMA', name: 'Falso dilema', description: 'Apresenta só duas opções quando existem outras.' },
+  { id: 'SLIPPERY_SLOPE', name: 'Ladeira escorregadia', description: 'Afirma que um passo levará inevitavelmente a consequências extremas.' },
+  { id: 'APPEAL_TO_EMOTION', name: 'Apelo à emoção', description: 'Usa medo, pena ou indignação no lugar de evidências.' },
+  { id: 'APPEAL_TO_AUTHORITY', name: 'Apelo à autoridade', description: 'Invoca uma autoridade irrelevante ou não especialista como prova.' },
+  { id: 'APPEAL_TO_POPULARITY', name: 'Apelo à popularidade', description: 'Trata algo como verdadeiro porque muitos acreditam nele.' },
+  { id: 'HASTY_GENERALIZATION', name: 'Generalização apressada', description: 'Tira conclusão geral a partir de poucos casos.' },
+  { id: 'FALSE_CAUSE', name: 'Falsa causa', description: 'Assume relação de causa só porque um fato veio depois do outro.' },
+  { id: 'CHERRY_PICKING', name: 'Seleção de dados', description: 'Cita apenas os dados favoráveis e omite os contrários.' },
+  { id: 'WHATABOUTISM', name: 'E o outro lado?', description: 'Desvia a crítica apontando erros do adversário (tu quoque).' },
+  { id: 'RED_HERRING', name: 'Pista falsa', description: 'Muda de assunto para desviar da questão em debate.' },
+];
+
+const normalize = (text: string) =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Aceita o id canônico ou o nome exibido (respostas antigas e roteiros de demo)
+export function findFallacy(idOrName: string): Required<LogicalFallacy> | undefined {
+  const target = normalize(idOrName);
+  return FALLACY_TAXONOMY.find(f => normalize(f.id) === target || normalize(f.name) === target);
+}
+
+export const describeTaxonomyForPrompt = () =>
+  FALLACY_TAXONOMY.map(f => `${f.id} (${f.name}: ${f.description})`).join("\n      ");
@@ -1,18 +1,11 @@
 import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-import { AnalysisResult, VerdictType } from "../types";
-
-const MODEL_NAME = "gemini-2.0-flash-exp";
-const LIVE_MODEL_NAME = "models/gemini-2.0-flash-exp";
-
-// --- TIPOS ---
-export type LiveStatus = {
-  type: 'info' | 'warning' | 'error';
-  message: string;
-};
-
-export interface LiveConnectionController {
-    disconnect: () => Promise<void>;
-}
+import { AnalysisResult, Claim, DEFAULT_LANGUAGE, Language, Participant, UNKNOWN_SPEAKER, VerificationContext } from "../types";
+import type { FactCheckProvider, LiveConnectionController, LiveStatusEvent, TranscriptHandler } from "./factCheckProvider";
+import { createTranscriptSegmenter } from "./transcriptSegmenter";
+import { createAudioRingBuffer } from "./audioRingBuffer";
+import { createConnectionStateStore } from "./liveConnectionState";
+import { dedupeOverlap } from "./transcriptOverlap";
+import { apiFetch } from "./apiClient";
 
 // --- AUDIO WORKLET (HIGH FIDELITY - SEM BOOST) ---
 const PCM_PROCESSOR_CODE = `
@@ -22,6 +15,8 @@ class PCMProcessor extends AudioWorkletProcessor {
     this.buffer = new Int16Array(4096); 
     this.bufferIndex = 0;
     this.targetRate = 16000;
+    // Soma dos quadrados do bloco, para a detecção de silêncio no segmentador
+    this.energy = 0;
   }
 
   process(inputs, outputs, parameters) {
@@ -54,10 +49,15 @@ class PCMProcessor extends AudioWorkletProcessor {
         const pcm = s < 0 ? s * 0x8000 : s * 0x7FFF;
         
         if (this.bufferIndex >= this.buffer.length) {
-            this.port.postMessage(this.buffer.slice(0, this.bufferIndex));
+            this.port.postMessage({
+                pcm: this.buffer.slice(0, this.bufferIndex),
+                rms: Math.sqrt(this.energy / this.bufferIndex)
+            });
             this.bufferIndex = 0;
+            this.energy = 0;
         }
         
+        this.energy += s * s;
         this.buffer[this.bufferIndex++] = pcm;
         inputIndex += ratio;
     }
@@ -79,159 +79,134 @@ function arrayBufferToBase64(buffer: ArrayBuffer | SharedArrayBuffer): string {
     return window.btoa(binary);
 }
 
-// --- EXTRATOR DE JSON (ALGORITMO DE BALANCEAMENTO) ---
-// Corrige o problema de JSON duplicado ou colado ({...}{...})
-function extractJSON(text: string): any {
-    try {
-        // 1. Remove marcadores de código Markdown para limpar o terreno
-        const cleanText = text.replace(/```json/g, '').replace(/```/g, '');
-        
-        // 2. Encontra o início do primeiro objeto
-        const startIndex = cleanText.indexOf('{');
-        if (startIndex === -1) throw new Error("Início do JSON não encontrado");
-
-        // 3. Algoritmo de Contagem de Chaves (Bracket Counting)
-        // Isso garante que pegamos apenas o PRIMEIRO objeto válido completo
-        let braceCount = 0;
-        let endIndex = -1;
-
-        for (let i = startIndex; i < cleanText.length; i++) {
-            if (cleanText[i] === '{') {
-                braceCount++;
-            } else if (cleanText[i] === '}') {
-                braceCount--;
-                if (braceCount === 0) {
-                    endIndex = i;
-                    break; // Encontrou o fechamento do objeto raiz
-                }
-            }
-        }
+// --- DIARIZAÇÃO (TAGS DE ORADOR) ---
+// O modelo marca trocas de orador com "[Nome]:" no início da fala
+const SPEAKER_TAG_REGEX = /\[([^\[\]]{1,60})\]:\s*/g;
 
-        if (endIndex !== -1) {
-            const jsonStr = cleanText.substring(startIndex, endIndex + 1);
-            return JSON.parse(jsonStr);
-        }
-        
-        throw new Error("Estrutura JSON incompleta ou quebrada");
-
-    } catch (e) {
-        console.error("Falha ao extrair JSON:", text);
-        // Fallback seguro para não travar a UI
-        return {
-            verdict: "UNVERIFIABLE",
-            explanation: "Erro técnico na leitura da resposta da IA (Formato inválido).",
-            confidence: 0,
-            sources: []
-        };
-    }
+const normalizeName = (name: string) =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Associa o rótulo detectado a um participante cadastrado (nome completo ou parcial)
+export function resolveSpeaker(label: string, participants: Participant[]): string {
+    const target = normalizeName(label);
+    if (!target) return UNKNOWN_SPEAKER;
+
+    const exact = participants.find(p => normalizeName(p.name) === target);
+    if (exact) return exact.name;
+
+    const partial = participants.find(p => {
+        const name = normalizeName(p.name);
+        return name.includes(target) || target.includes(name) ||
+            name.split(/\s+/).some(part => part.length > 2 && target.split(/\s+/).includes(part));
+    });
+    return partial ? partial.name : UNKNOWN_SPEAKER;
+}
+
+// --- CHAMADAS À API ---
+// A chave do Gemini fica no servidor: triagem e verificação passam por /api/ai/*,
+// que também aplica as quotas da sessão e contabiliza o consumo de tokens.
+const AI_API_BASE = '/api/ai';
+
+async function postToAi<T>(path: string, body: unknown): Promise<T> {
+  const response = await apiFetch(`${AI_API_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  // status e code seguem no erro para a fila decidir (429 tenta de novo, quota esgotada não)
+  if (!response.ok) {
+    throw Object.assign(new Error(data.error || `Falha na chamada à IA (${response.status})`), { status: response.status, code: data.code });
+  }
+  return data as T;
 }
 
+// --- TRIAGEM DE AFIRMAÇÕES ---
+export const extractClaims = async (
+  sessionId: string,
+  text: string,
+  speaker: string = UNKNOWN_SPEAKER,
+  contextHistory: string[] = [],
+  language: Language = DEFAULT_LANGUAGE
+): Promise<Omit<Claim, 'id'>[]> => {
+  const data = await postToAi<{ claims: Omit<Claim, 'id'>[] }>('claims', { sessionId, text, speaker, contextHistory, language });
+  return data.claims;
+};
+
 // --- FACT CHECKING ---
 export const analyzeStatement = async (
+  sessionId: string,
   text: string,
   segmentId: string,
-  contextHistory: string[] = [] 
+  contextHistory: string[] = [],
+  speaker: string = UNKNOWN_SPEAKER,
+  language: Language = DEFAULT_LANGUAGE,
+  verification: VerificationContext = {}
 ): Promise<AnalysisResult> => {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key is missing");
-  const ai = new GoogleGenAI({ apiKey });
-  
   try {
-    const prompt = `
-      ATUE COMO: Especialista Sênior em Fact-Checking.
-      CONTEXTO:
-      ${contextHistory.map(c => `- ${c}`).join("\n")}
-      
-      AFIRMAÇÃO:
-      "${text}"
-      
-      INSTRUÇÕES:
-      1. Valide fatos usando 'googleSearch'.
-      2. Responda APENAS o JSON abaixo.
-      
-      JSON:
-      {
-        "verdict": "TRUE" | "FALSE" | "MISLEADING" | "OPINION" | "UNVERIFIABLE",
-        "confidence": 0.9,
-        "explanation": "Resumo curto.",
-        "sources": [{"title": "Fonte", "uri": "URL"}]
-      }
-    `;
-
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-      },
-    });
-
-    const jsonText = response.text || "{}";
-    const data = extractJSON(jsonText); // Usa o novo extrator inteligente
-
-    // Mescla fontes encontradas pelo Google Search (grounding) com as do JSON
-    const googleSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.map((chunk: any) => chunk.web)
-      .filter((web: any) => web && web.uri && web.title) || [];
-    
-    const finalSources = googleSources.length > 0 ? googleSources : (data.sources || []);
-
-    return {
-      segmentId,
-      verdict: (data.verdict as VerdictType) || VerdictType.UNVERIFIABLE,
-      confidence: data.confidence || 0,
-      explanation: data.explanation || "Sem análise.",
-      counterEvidence: data.counterEvidence,
-      sources: finalSources,
-      sentimentScore: data.sentimentScore || 0,
-      logicalFallacies: data.logicalFallacies || [],
-      context: contextHistory,
-      tokenUsage: {
-          promptTokens: response.usageMetadata?.promptTokenCount || 0,
-          responseTokens: response.usageMetadata?.candidatesTokenCount || 0,
-          totalTokens: response.usageMetadata?.totalTokenCount || 0
-      }
-    };
+    return await postToAi<AnalysisResult>('verify', { sessionId, segmentId, text, speaker, contextHistory, language, verification });
   } catch (error) {
+    // Erros de rede/quota sobem para a fila de verificação decidir se tenta de novo
     console.error("Erro análise:", error);
-    return {
-      segmentId,
-      verdict: VerdictType.UNVERIFIABLE,
-      confidence: 0,
-      explanation: "Erro de conexão ou limite de quota.",
-      sources: [],
-      sentimentScore: 0,
-      logicalFallacies: [],
-      context: [],
-    };
+    throw error;
   }
 };
 
 // --- CORE LIVE CONNECTION ---
 
+// Reconexão com backoff exponencial + jitter, como a fila de verificação
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Áudio capturado com a conexão fora, reenviado ao reconectar; o excedente vira lacuna na transcrição
+const MAX_BUFFERED_AUDIO_MS = 30000;
+// Sessões ao vivo têm duração máxima no servidor (~10 min com áudio): a próxima é aberta antes,
+// recebe o mesmo áudio por alguns segundos e assume sem passar por RECONNECTING
+const LIVE_SESSION_ROTATE_MS = 9 * 60 * 1000;
+const ROTATION_OVERLAP_MS = 3000;
+const ROTATION_RETRY_MS = 30000;
+// Fim do texto da sessão atual comparado com o começo da próxima
+const OVERLAP_TAIL_CHARS = 400;
+// A transcrição usa o token efêmero direto no Gemini, fora do proxy: o consumo informado nas
+// mensagens (usageMetadata, um turno por mensagem) é relatado em lotes para /api/ai/live-usage
+const LIVE_USAGE_REPORT_MS = 30000;
+
+type TokenUsage = NonNullable<AnalysisResult['tokenUsage']>;
+
+interface LiveRotation {
+  sessionPromise: Promise<any> | null;
+  open: boolean;
+  // Texto da próxima sessão durante a sobreposição, entregue só na troca
+  incomingText: string;
+  overlapTimeout: ReturnType<typeof setTimeout> | null;
+}
+
+// Modelo, idioma e instruções do transcritor vêm travados no token efêmero emitido
+// por /api/ai/live-token; os participantes aqui servem só para resolver as tags de orador
 export const connectToLiveDebate = async (
+  sessionId: string,
   originalStream: MediaStream,
-  onTranscript: (data: { text: string; speaker: string; isFinal: boolean }) => void,
+  onTranscript: TranscriptHandler,
   onError: (err: Error) => void,
-  onStatus?: (status: LiveStatus) => void
+  onStatus?: (status: LiveStatusEvent) => void,
+  participants: Participant[] = []
 ): Promise<LiveConnectionController> => {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
-  if (!apiKey) {
-    onError(new Error("API Key missing"));
-    return { disconnect: async () => {} };
-  }
-
   const stream = originalStream.clone();
-  const ai = new GoogleGenAI({ apiKey });
 
-  let connectionState: 'DISCONNECTED' | 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' = 'DISCONNECTED';
+  const connection = createConnectionStateStore('CONNECTING');
+  const audioBuffer = createAudioRingBuffer(MAX_BUFFERED_AUDIO_MS);
   let shouldMaintainConnection = true;
+  let reconnectAttempts = 0;
   let activeSessionPromise: Promise<any> | null = null;
   let audioContext: AudioContext | null = null;
   let workletNode: AudioWorkletNode | null = null;
   let sourceNode: MediaStreamAudioSourceNode | null = null;
-  let reconnectTimeout: any = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  let rotationTimeout: ReturnType<typeof setTimeout> | null = null;
+  let rotation: LiveRotation | null = null;
+  let recentText = "";
+  // Consumo ainda não relatado, por conexão (grantId emitido com o token efêmero)
+  let pendingUsage = new Map<string, TokenUsage>();
 
   const initAudioStack = async () => {
       try {
@@ -248,8 +223,13 @@ export const connectToLiveDebate = async (
           workletNode = new AudioWorkletNode(audioContext, 'pcm-processor');
 
           workletNode.port.onmessage = (event) => {
-              if (connectionState === 'CONNECTED') {
-                  sendAudioChunk(event.data);
+              const { pcm, rms } = event.data as { pcm: Int16Array; rms: number };
+              // Blocos de 16 amostras por ms (16kHz)
+              segmenter.pushEnergy(rms, pcm.length / 16);
+              if (connection.get() === 'CONNECTED') {
+                  sendAudioChunk(pcm);
+              } else if (shouldMaintainConnection) {
+                  audioBuffer.push(pcm);
               }
           };
 
@@ -264,11 +244,16 @@ export const connectToLiveDebate = async (
   };
 
   const sendAudioChunk = (pcmInt16: Int16Array) => {
-      if (connectionState !== 'CONNECTED' || !activeSessionPromise) return;
+      if (connection.get() !== 'CONNECTED' || !activeSessionPromise) return;
       const base64Data = arrayBufferToBase64(pcmInt16.buffer);
+      sendToSession(activeSessionPromise, base64Data);
+      // Durante a sobreposição a próxima sessão recebe o mesmo áudio
+      if (rotation?.open && rotation.sessionPromise) sendToSession(rotation.sessionPromise, base64Data);
+  };
 
-      activeSessionPromise.then(async (session) => {
-          if (connectionState !== 'CONNECTED') return;
+  const sendToSession = (sessionPromise: Promise<any>, base64Data: string) => {
+      sessionPromise.then(async (session) => {
+          if (connection.get() !== 'CONNECTED') return;
           try {
               // Envia no formato correto { media: ... }
               await session.sendRealtimeInput({ 
@@ -284,78 +269,310 @@ export const connectToLiveDebate = async (
       }).catch(() => {});
   };
 
+  // Reenvia o áudio guardado durante a queda; o que não coube vira lacuna antes da próxima fala
+  const replayBufferedAudio = () => {
+      const bufferedMs = audioBuffer.bufferedMs();
+      const { chunks, droppedMs } = audioBuffer.drain();
+      if (droppedMs > 0) markAudioGap(droppedMs);
+      if (chunks.length > 0) console.log(`🔁 Reenviando ${bufferedMs}ms de áudio`);
+      chunks.forEach(sendAudioChunk);
+  };
+
+  const scheduleReconnect = () => {
+      if (!shouldMaintainConnection || reconnectTimeout) return;
+      reconnectAttempts++;
+      if (reconnectAttempts > MAX_RECONNECT_ATTEMPTS) {
+          shouldMaintainConnection = false;
+          connection.set('FAILED');
+          endWithAudioGap();
+          onStatus?.({ type: 'error', key: 'status.reconnectFailed' });
+          onError(new Error(`Não foi possível reconectar após ${MAX_RECONNECT_ATTEMPTS} tentativas`));
+          return;
+      }
+
+      const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (reconnectAttempts - 1));
+      const delayMs = backoff + Math.random() * RECONNECT_BASE_DELAY_MS;
+      connection.set('RECONNECTING');
+      onStatus?.({ type: 'warning', key: 'status.reconnecting', params: { attempt: reconnectAttempts, max: MAX_RECONNECT_ATTEMPTS } });
+      reconnectTimeout = setTimeout(() => {
+          reconnectTimeout = null;
+          establishConnection();
+      }, delayMs);
+  };
+
+  // Cada sessão (conexão, reconexão ou rotação) usa os mesmos callbacks;
+  // o papel dela é decidido pela identidade da promise no momento do evento
+  const openLiveSession = async (): Promise<{ sessionPromise: Promise<any> } | null> => {
+      // Token de uso único: cada sessão pede um novo ao servidor
+      const liveToken = await postToAi<{ token: string; model: string; grantId: string }>('live-token', { sessionId });
+      if (!shouldMaintainConnection) return null;
+      const ai = new GoogleGenAI({ apiKey: liveToken.token, httpOptions: { apiVersion: 'v1alpha' } });
+
+      const sessionPromise: Promise<any> = ai.live.connect({
+        model: liveToken.model,
+        config: {
+          responseModalities: [Modality.TEXT],
+        },
+        callbacks: {
+          onopen: () => handleOpen(sessionPromise),
+          onmessage: (msg: LiveServerMessage) => handleMessage(sessionPromise, msg, liveToken.grantId),
+          onclose: (e) => handleClose(sessionPromise, e),
+          onerror: (err) => {
+              // O onclose que vem em seguida agenda a reconexão; até lá o áudio fica no buffer
+              console.error("Socket Error:", err);
+              if (shouldMaintainConnection && activeSessionPromise === sessionPromise) connection.set('RECONNECTING');
+          }
+        }
+      });
+      // Embrulhada para o await não esperar a conexão abrir
+      return { sessionPromise };
+  };
+
+  const handleOpen = (sessionPromise: Promise<any>) => {
+      if (rotation && rotation.sessionPromise === sessionPromise) {
+          console.log("🟢 Próxima sessão aberta, sobrepondo áudio");
+          rotation.open = true;
+          rotation.overlapTimeout = setTimeout(promoteRotation, ROTATION_OVERLAP_MS);
+          return;
+      }
+      if (activeSessionPromise !== sessionPromise) return;
+      console.log("🟢 Conectado!");
+      reconnectAttempts = 0;
+      connection.set('CONNECTED');
+      onStatus?.({ type: 'info', key: 'status.online' });
+      replayBufferedAudio();
+      scheduleRotation(LIVE_SESSION_ROTATE_MS);
+  };
+
+  const handleMessage = (sessionPromise: Promise<any>, msg: LiveServerMessage, grantId: string) => {
+      // Na sobreposição da rotação as duas sessões são cobradas, cada uma na sua conexão
+      if (msg.usageMetadata) {
+          addPendingUsage(grantId, {
+              promptTokens: msg.usageMetadata.promptTokenCount || 0,
+              responseTokens: msg.usageMetadata.responseTokenCount || 0,
+              totalTokens: msg.usageMetadata.totalTokenCount || 0
+          });
+      }
+      // Aviso de encerramento iminente: antecipa a rotação
+      if (msg.goAway && activeSessionPromise === sessionPromise) startRotation();
+      const inputTranscript = msg.serverContent?.inputTranscription?.text;
+      const modelText = msg.serverContent?.modelTurn?.parts?.[0]?.text;
+      if (inputTranscript) routeText(sessionPromise, inputTranscript);
+      if (modelText) routeText(sessionPromise, modelText);
+  };
+
+  const handleClose = (sessionPromise: Promise<any>, e: CloseEvent) => {
+      console.log(`🔴 Fechado (${e.code})`);
+      if (rotation && rotation.sessionPromise === sessionPromise) {
+          // A próxima sessão caiu antes da troca: a atual segue e a rotação é tentada de novo
+          abandonRotation();
+          scheduleRotation(ROTATION_RETRY_MS);
+          return;
+      }
+      if (activeSessionPromise !== sessionPromise) return;
+      // A atual acabou durante a sobreposição: a próxima já está recebendo o áudio
+      if (rotation?.open) {
+          promoteRotation();
+          return;
+      }
+      abandonRotation();
+      if (e.code === 1000) {
+          shouldMaintainConnection = false;
+          connection.set('DISCONNECTED');
+          onStatus?.({ type: 'info', key: 'status.disconnected' });
+          return;
+      }
+      scheduleReconnect();
+  };
+
+  const routeText = (sessionPromise: Promise<any>, text: string) => {
+      if (activeSessionPromise === sessionPromise) {
+          recentText = (recentText + text).slice(-OVERLAP_TAIL_CHARS);
+          handleText(text);
+      } else if (rotation && rotation.sessionPromise === sessionPromise) {
+          rotation.incomingText += text;
+      }
+  };
+
   const establishConnection = async () => {
     if (!shouldMaintainConnection) return;
-    connectionState = 'CONNECTING';
-    onStatus?.({ type: 'info', message: "CONECTANDO..." });
+    // Durante a reconexão o estado continua RECONNECTING até a conexão abrir
+    if (reconnectAttempts === 0) {
+        connection.set('CONNECTING');
+        onStatus?.({ type: 'info', key: 'status.connecting' });
+    }
 
     try {
-        const sessionPromise = ai.live.connect({
-          model: LIVE_MODEL_NAME, 
-          config: {
-            responseModalities: [Modality.TEXT], 
-            // @ts-ignore
-            inputAudioTranscription: { }, 
-            systemInstruction: {
-                parts: [{ text: "You are a real-time transcriber for Portuguese (Brazil). Output words immediately as they are spoken. Do not summarize." }]
-            },
-          },
-          callbacks: {
-            onopen: () => {
-               console.log("🟢 Conectado!");
-               connectionState = 'CONNECTED';
-               onStatus?.({ type: 'info', message: "ONLINE" });
-            },
-            onmessage: (msg: LiveServerMessage) => {
-               const inputTranscript = msg.serverContent?.inputTranscription?.text;
-               const modelText = msg.serverContent?.modelTurn?.parts?.[0]?.text;
-               if (inputTranscript) handleText(inputTranscript);
-               if (modelText) handleText(modelText);
-            },
-            onclose: (e) => {
-               console.log(`🔴 Fechado (${e.code})`);
-               connectionState = 'DISCONNECTED';
-               if (e.code === 1000) {
-                   shouldMaintainConnection = false;
-                   onStatus?.({ type: 'info', message: "Desconectado" });
-                   return;
-               }
-               if (shouldMaintainConnection) {
-                   connectionState = 'RECONNECTING';
-                   onStatus?.({ type: 'warning', message: "RECONECTANDO..." });
-                   reconnectTimeout = setTimeout(establishConnection, 1000); 
-               }
-            },
-            onerror: (err) => {
-                console.error("Socket Error:", err);
-                connectionState = 'DISCONNECTED';
-            }
-          }
-        });
-
+        const opened = await openLiveSession();
+        if (!opened) return;
+        const { sessionPromise } = opened;
         activeSessionPromise = sessionPromise;
         sessionPromise.catch(() => {
-             if (shouldMaintainConnection && connectionState !== 'CONNECTED') {
-                 reconnectTimeout = setTimeout(establishConnection, 1000);
-             }
+             if (connection.get() !== 'CONNECTED') scheduleReconnect();
         });
 
-    } catch (err) {
-        connectionState = 'DISCONNECTED';
-        if (shouldMaintainConnection) reconnectTimeout = setTimeout(establishConnection, 1000);
+    } catch (err: any) {
+        // Sem login, sessão de outra organização ou quota esgotada: tentar de novo não resolve
+        if (err?.status === 401 || err?.status === 403) {
+            shouldMaintainConnection = false;
+            connection.set('FAILED');
+            onError(err);
+            return;
+        }
+        scheduleReconnect();
     }
   };
 
-  let currentBuffer = "";
-  const handleText = (raw: string) => {
-      if (raw) {
-          currentBuffer += raw; 
-          onTranscript({ text: currentBuffer.trim(), speaker: "DEBATE", isFinal: false });
-          if (currentBuffer.length > 200 || raw.match(/[.!?]$/)) {
-              onTranscript({ text: currentBuffer.trim(), speaker: "DEBATE", isFinal: true });
-              currentBuffer = "";
+  const addPendingUsage = (grantId: string, usage: TokenUsage) => {
+      const current = pendingUsage.get(grantId) || { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+      pendingUsage.set(grantId, {
+          promptTokens: current.promptTokens + usage.promptTokens,
+          responseTokens: current.responseTokens + usage.responseTokens,
+          totalTokens: current.totalTokens + usage.totalTokens
+      });
+  };
+
+  // Falha no envio devolve o lote ao acumulado, para a próxima tentativa; relato recusado
+  // pelo servidor (conexão desconhecida ou expirada) é descartado. 422 (acima do ritmo
+  // possível até agora) e 429 ainda podem passar depois.
+  const reportUsage = async () => {
+      const batches = [...pendingUsage].filter(([, usage]) => usage.totalTokens > 0);
+      pendingUsage = new Map();
+      await Promise.all(batches.map(async ([grantId, usage]) => {
+          try {
+              await postToAi('live-usage', { sessionId, grantId, usage });
+          } catch (e: any) {
+              console.warn("Falha ao relatar consumo da transcrição:", e);
+              const rejected = e?.status >= 400 && e.status < 500 && e.status !== 422 && e.status !== 429;
+              if (!rejected) addPendingUsage(grantId, usage);
           }
+      }));
+  };
+  const usageInterval = setInterval(reportUsage, LIVE_USAGE_REPORT_MS);
+
+  // --- ROTAÇÃO DE SESSÃO ---
+  const scheduleRotation = (delayMs: number) => {
+      if (rotationTimeout) clearTimeout(rotationTimeout);
+      rotationTimeout = setTimeout(() => {
+          rotationTimeout = null;
+          startRotation();
+      }, delayMs);
+  };
+
+  const startRotation = async () => {
+      if (!shouldMaintainConnection || rotation || connection.get() !== 'CONNECTED') return;
+      if (rotationTimeout) { clearTimeout(rotationTimeout); rotationTimeout = null; }
+      const pending: LiveRotation = { sessionPromise: null, open: false, incomingText: "", overlapTimeout: null };
+      rotation = pending;
+      console.log("🔄 Abrindo a próxima sessão ao vivo");
+
+      try {
+          const opened = await openLiveSession();
+          if (!opened) return;
+          if (rotation !== pending) {
+              opened.sessionPromise.then(session => session.close()).catch(() => {});
+              return;
+          }
+          pending.sessionPromise = opened.sessionPromise;
+          opened.sessionPromise.catch(() => {
+              if (rotation !== pending || pending.open) return;
+              abandonRotation();
+              scheduleRotation(ROTATION_RETRY_MS);
+          });
+      } catch (err: any) {
+          if (rotation !== pending) return;
+          rotation = null;
+          // Sem quota para outra conexão: a sessão atual segue até o servidor encerrá-la
+          if (err?.status === 401 || err?.status === 403) return;
+          scheduleRotation(ROTATION_RETRY_MS);
+      }
+  };
+
+  const promoteRotation = () => {
+      if (!shouldMaintainConnection || !rotation?.sessionPromise) return;
+      const { sessionPromise, incomingText, overlapTimeout } = rotation;
+      if (overlapTimeout) clearTimeout(overlapTimeout);
+      rotation = null;
+
+      const previousSessionPromise = activeSessionPromise;
+      activeSessionPromise = sessionPromise;
+      // O começo do texto da nova sessão repete o fim da anterior
+      const handoverText = dedupeOverlap(recentText, incomingText);
+      recentText = "";
+      if (handoverText.trim()) routeText(sessionPromise, ` ${handoverText}`);
+
+      // A anterior pode ter caído logo antes da troca: o áudio retido vai para a nova
+      if (connection.get() !== 'CONNECTED') {
+          connection.set('CONNECTED');
+          onStatus?.({ type: 'info', key: 'status.online' });
+          replayBufferedAudio();
+      }
+      console.log("🔄 Sessão ao vivo trocada");
+      // O onclose da anterior é ignorado: ela não é mais a sessão ativa
+      previousSessionPromise?.then(session => session.close()).catch(() => {});
+      scheduleRotation(LIVE_SESSION_ROTATE_MS);
+  };
+
+  const abandonRotation = () => {
+      if (!rotation) return;
+      const abandoned = rotation;
+      rotation = null;
+      if (abandoned.overlapTimeout) clearTimeout(abandoned.overlapTimeout);
+      abandoned.sessionPromise?.then(session => session.close()).catch(() => {});
+  };
+
+  // Lacuna acumulada, anexada à próxima fala final
+  let pendingGapMs = 0;
+  const segmenter = createTranscriptSegmenter((data) => {
+      if (data.isFinal && pendingGapMs > 0) {
+          onTranscript({ ...data, audioGapMs: pendingGapMs });
+          pendingGapMs = 0;
+          return;
       }
+      onTranscript(data);
+  });
+
+  // Fecha a fala em andamento: o que vier depois da lacuna é outra fala
+  const markAudioGap = (durationMs: number) => {
+      console.warn(`⚠️ ${durationMs}ms de áudio perdidos na reconexão`);
+      segmenter.flush();
+      pendingGapMs += durationMs;
+  };
+
+  // Encerramento (desistência ou parada): o áudio ainda no buffer não será transcrito, e a
+  // lacuna sem fala depois dela segue sozinha, numa fala final vazia
+  const endWithAudioGap = () => {
+      const lostMs = audioBuffer.bufferedMs() + audioBuffer.drain().droppedMs;
+      if (lostMs > 0) markAudioGap(lostMs);
+      else segmenter.flush();
+      if (pendingGapMs > 0) {
+          onTranscript({ text: "", speaker: UNKNOWN_SPEAKER, isFinal: true, audioGapMs: pendingGapMs });
+          pendingGapMs = 0;
+      }
+  };
+
+  let pendingTag = "";
+
+  const handleText = (raw: string) => {
+      if (!raw) return;
+      const text = pendingTag + raw;
+      pendingTag = "";
+
+      // Tag de orador pode chegar quebrada entre dois chunks ("[Lu" + "la]: ")
+      const openIndex = text.lastIndexOf('[');
+      let body = text;
+      if (openIndex !== -1 && !/\]:/.test(text.slice(openIndex)) && text.length - openIndex <= 62) {
+          pendingTag = text.slice(openIndex);
+          body = text.slice(0, openIndex);
+      }
+
+      let lastIndex = 0;
+      for (const match of body.matchAll(SPEAKER_TAG_REGEX)) {
+          segmenter.pushText(body.slice(lastIndex, match.index));
+          segmenter.setSpeaker(resolveSpeaker(match[1], participants));
+          lastIndex = (match.index ?? 0) + match[0].length;
+      }
+      segmenter.pushText(body.slice(lastIndex));
   };
 
   await initAudioStack(); 
@@ -365,9 +582,15 @@ export const connectToLiveDebate = async (
        disconnect: async () => {
            console.log("🛑 Stop...");
            shouldMaintainConnection = false;
-           connectionState = 'DISCONNECTED';
+           connection.set('DISCONNECTED');
            
            if (reconnectTimeout) clearTimeout(reconnectTimeout);
+           if (rotationTimeout) clearTimeout(rotationTimeout);
+           clearInterval(usageInterval);
+           abandonRotation();
+           // A última fala ainda retida vai para análise antes de encerrar
+           endWithAudioGap();
+           segmenter.dispose();
            if (workletNode) { workletNode.port.onmessage = null; workletNode.disconnect(); }
            if (sourceNode) sourceNode.disconnect();
            if (audioContext && audioContext.state !== 'closed') await audioContext.close();
@@ -375,6 +598,25 @@ export const connectToLiveDebate = async (
                try { const session = await activeSessionPromise; await session.close(); } catch (e) { /* ignore */ }
            }
            stream.getTracks().forEach(t => t.stop()); 
-       }
+           await reportUsage();
+       },
+       getState: connection.get,
+       onStateChange: connection.subscribe
     };
 }
+
+export const geminiProvider: FactCheckProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  requiresAudioCapture: true,
+  connectToLiveDebate: async (sessionId, stream, onTranscript, onError, onStatus, participants) => {
+    if (!stream) {
+      onError(new Error("Gemini requer um stream de áudio"));
+      const failed = createConnectionStateStore('FAILED');
+      return { disconnect: async () => {}, getState: failed.get, onStateChange: failed.subscribe };
+    }
+    return connectToLiveDebate(sessionId, stream, onTranscript, onError, onStatus, participants);
+  },
+  extractClaims,
+  analyzeStatement,
+};
@@ -0,0 +1,50 @@
+import { PriorStatement, SessionDetail, SessionStatus, SessionSummary } from '../types';
+import { apiFetch } from './apiClient';
+
+const API_BASE = '/api/logs';
+
+export interface SessionFilters {
+  page?: number;
+  pageSize?: number;
+  status?: SessionStatus | '';
+  from?: string;
+  to?: string;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export const fetchSessions = async (filters: SessionFilters = {}): Promise<SessionPage> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await apiFetch(`${API_BASE}/sessions?${params.toString()}`);
+  if (!response.ok) throw new Error(`Falha ao listar sessões (${response.status})`);
+  return response.json();
+};
+
+export const fetchSessionDetail = async (sessionId: string): Promise<SessionDetail> => {
+  const response = await apiFetch(`${API_BASE}/session?sessionId=${encodeURIComponent(sessionId)}`);
+  if (!response.ok) throw new Error(`Falha ao carregar sessão (${response.status})`);
+  return response.json();
+};
+
+// Afirmações anteriores parecidas do mesmo orador; sem histórico a verificação segue normalmente
+export const fetchPriorStatements = async (speaker: string, text: string, segmentId: string): Promise<PriorStatement[]> => {
+  const params = new URLSearchParams({ speaker, text, segmentId });
+  try {
+    const response = await apiFetch(`${API_BASE}/statements?${params.toString()}`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.statements || [];
+  } catch (e) {
+    console.warn("Falha ao buscar histórico do orador", e);
+    return [];
+  }
+};
@@ -0,0 +1,56 @@
+import { DEFAULT_LANGUAGE, Language, LANGUAGES, LogicalFallacy, VerdictType } from "../types";
+import { MessageKey, Messages, ptBR } from "../locales/pt-BR";
+import { es } from "../locales/es";
+import { en } from "../locales/en";
+
+// --- INTERNACIONALIZAÇÃO DA INTERFACE ---
+// O idioma da interface é preferência de quem opera; o idioma do debate fica na sessão.
+
+export type { MessageKey };
+
+export type TranslationParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+const BUNDLES: Record<Language, Messages> = {
+  'pt-BR': ptBR,
+  es,
+  en,
+};
+
+const UI_LANGUAGE_STORAGE_KEY = 'ui_language';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && LANGUAGES.includes(value as Language);
+
+export const createTranslator = (language: Language): Translator => {
+  const bundle = BUNDLES[language] || BUNDLES[DEFAULT_LANGUAGE];
+  return (key, params) => {
+    const template = bundle[key] ?? ptBR[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+  };
+};
+
+// Chaves montadas a partir de valores do domínio
+export const verdictKey = (verdict: VerdictType) => `verdict.${verdict}` as MessageKey;
+
+// Falácias fora da taxonomia (registros antigos) mantêm o nome gravado
+export const fallacyLabel = (t: Translator, fallacy: Pick<LogicalFallacy, 'id' | 'name'>) => {
+  const key = `fallacy.${fallacy.id}`;
+  return fallacy.id && key in ptBR ? t(key as MessageKey) : fallacy.name;
+};
+
+// Preferência salva > idioma do navegador > padrão
+export const loadUiLanguage = (): Language => {
+  const stored = localStorage.getItem(UI_LANGUAGE_STORAGE_KEY);
+  if (isLanguage(stored)) return stored;
+
+  const browser = (navigator.language || '').toLowerCase();
+  if (browser.startsWith('es')) return 'es';
+  if (browser.startsWith('en')) return 'en';
+  return DEFAULT_LANGUAGE;
+};
+
+export const saveUiLanguage = (language: Language) => {
+  localStorage.setItem(UI_LANGUAGE_STORAGE_KEY, language);
+};
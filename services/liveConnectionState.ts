@@ -0,0 +1,29 @@
+import type { LiveConnectionController, LiveConnectionState } from "./factCheckProvider";
+
+// --- ESTADO DA CONEXÃO AO VIVO ---
+// Guarda o estado atual e avisa os inscritos a cada mudança; os provedores
+// expõem get/subscribe no LiveConnectionController.
+
+export interface ConnectionStateStore {
+  get: () => LiveConnectionState;
+  set: (state: LiveConnectionState) => void;
+  subscribe: LiveConnectionController['onStateChange'];
+}
+
+export const createConnectionStateStore = (initial: LiveConnectionState): ConnectionStateStore => {
+  let state = initial;
+  const listeners = new Set<(state: LiveConnectionState) => void>();
+
+  return {
+    get: () => state,
+    set: (next) => {
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener(state));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
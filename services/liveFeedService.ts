@@ -0,0 +1,97 @@
+import { AnalysisResult, DebateSegment } from '../types';
+import { apiFetch } from './apiClient';
+
+const FEED_URL = '/api/live/feed';
+const POLL_INTERVAL_MS = 3000;
+// Erros seguidos do EventSource antes de cair para polling
+const MAX_STREAM_ERRORS = 3;
+
+export type LiveFeedTransport = 'sse' | 'poll';
+
+// O feed reenvia uma janela antes do cursor: o mesmo item pode chegar mais de uma vez
+export interface LiveFeedHandlers {
+  onSegment: (segment: DebateSegment) => void;
+  onAnalysis: (analysis: AnalysisResult) => void;
+  onTransport?: (transport: LiveFeedTransport, connected: boolean) => void;
+}
+
+// Token que vai nos links do público e do overlay; só existe para sessões já iniciadas
+export const fetchShareToken = async (sessionId: string): Promise<string> => {
+  const response = await apiFetch('/api/live/share', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.shareToken) throw new Error(data.error || `Falha ao gerar link (${response.status})`);
+  return data.shareToken;
+};
+
+// Assina as mudanças de uma sessão via Server-Sent Events, com polling de fallback.
+// O acesso é pelo token de compartilhamento. Retorna a função que encerra a assinatura.
+export const subscribeToSession = (shareToken: string, handlers: LiveFeedHandlers): (() => void) => {
+  let cursor = 0;
+  let active = true;
+  let source: EventSource | null = null;
+  let pollTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const poll = async () => {
+    if (!active) return;
+    try {
+      const response = await fetch(`${FEED_URL}?mode=poll&token=${encodeURIComponent(shareToken)}&since=${cursor}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      data.segments.forEach(handlers.onSegment);
+      data.analyses.forEach(handlers.onAnalysis);
+      cursor = data.cursor || cursor;
+      handlers.onTransport?.('poll', true);
+    } catch (e) {
+      console.warn("Falha no polling do feed", e);
+      handlers.onTransport?.('poll', false);
+    }
+    if (active) pollTimeout = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+
+  const startStream = () => {
+    if (typeof EventSource === 'undefined') return poll();
+
+    let consecutiveErrors = 0;
+    source = new EventSource(`${FEED_URL}?token=${encodeURIComponent(shareToken)}`);
+
+    const track = (event: MessageEvent) => {
+      consecutiveErrors = 0;
+      if (event.lastEventId) cursor = Number(event.lastEventId) || cursor;
+    };
+
+    source.onopen = () => {
+      consecutiveErrors = 0;
+      handlers.onTransport?.('sse', true);
+    };
+    source.addEventListener('segment', (event) => {
+      track(event as MessageEvent);
+      handlers.onSegment(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('analysis', (event) => {
+      track(event as MessageEvent);
+      handlers.onAnalysis(JSON.parse((event as MessageEvent).data));
+    });
+    source.onerror = () => {
+      // O servidor fecha o stream periodicamente; só desiste após falhas seguidas
+      consecutiveErrors++;
+      handlers.onTransport?.('sse', false);
+      if (consecutiveErrors >= MAX_STREAM_ERRORS && source) {
+        source.close();
+        source = null;
+        poll();
+      }
+    };
+  };
+
+  startStream();
+
+  return () => {
+    active = false;
+    if (source) source.close();
+    if (pollTimeout) clearTimeout(pollTimeout);
+  };
+};
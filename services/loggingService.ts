@@ -1,13 +1,14 @@
-import { AnalysisResult } from '../types';
+import { AnalysisResult, DEFAULT_LANGUAGE, DebateSegment, EditorReview, Language, Participant } from '../types';
+import { apiFetch } from './apiClient';
 
 const API_BASE = '/api/logs';
 
-export const logSessionStart = async (sessionId: string) => {
+export const logSessionStart = async (sessionId: string, participants: Participant[] = [], language: Language = DEFAULT_LANGUAGE) => {
   try {
-    await fetch(`${API_BASE}/session`, {
+    await apiFetch(`${API_BASE}/session`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sessionId }),
+      body: JSON.stringify({ sessionId, participants, language }),
     });
   } catch (e) {
     console.error("Falha ao logar inicio de sessão", e);
@@ -18,7 +19,7 @@ export const logSessionEnd = async (sessionId: string) => {
   try {
     // navigator.sendBeacon é melhor para eventos de fechamento de página, 
     // mas fetch é ok se for clique de botão
-    await fetch(`${API_BASE}/session/end`, {
+    await apiFetch(`${API_BASE}/session/end`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ sessionId }),
@@ -28,6 +29,18 @@ export const logSessionEnd = async (sessionId: string) => {
   }
 };
 
+export const logSegment = async (sessionId: string, segment: DebateSegment) => {
+  try {
+    await apiFetch(`${API_BASE}/segment`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, segment }),
+    });
+  } catch (e) {
+    console.error("Falha ao logar segmento", e);
+  }
+};
+
 export const logAnalysis = async (
   sessionId: string,
   segmentId: string,
@@ -35,17 +48,52 @@ export const logAnalysis = async (
   analysis: AnalysisResult
 ) => {
   try {
-    await fetch(`${API_BASE}/analysis`, {
+    await apiFetch(`${API_BASE}/analysis`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         sessionId,
         segmentId,
         text,
+        speaker: analysis.speaker,
+        parentSegmentId: analysis.parentSegmentId,
         analysis
       }),
     });
   } catch (e) {
     console.error("Falha ao logar análise", e);
   }
+};
+
+export const logSpeakerCorrection = async (
+  sessionId: string,
+  segmentId: string,
+  speaker: string
+) => {
+  try {
+    await apiFetch(`${API_BASE}/speaker`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, segmentId, speaker }),
+    });
+  } catch (e) {
+    console.error("Falha ao logar correção de orador", e);
+  }
+};
+
+export const logReview = async (
+  sessionId: string,
+  segmentId: string,
+  review: EditorReview,
+  override?: Partial<Pick<AnalysisResult, 'verdict' | 'explanation' | 'sources'>>
+) => {
+  try {
+    await apiFetch(`${API_BASE}/review`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, segmentId, review, override }),
+    });
+  } catch (e) {
+    console.error("Falha ao logar revisão", e);
+  }
 };
\ No newline at end of file
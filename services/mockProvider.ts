@@ -0,0 +1,134 @@
+import { AnalysisResult, Claim, DEFAULT_LANGUAGE, Language, UNKNOWN_SPEAKER, VerdictType, VerificationContext } from "../types";
+import { evidenceRef, resolveContradiction, resolveEvidenceSources, validateAnalysisPayload } from "./analysisSchema";
+import type { FactCheckProvider, LiveConnectionController } from "./factCheckProvider";
+import { createConnectionStateStore } from "./liveConnectionState";
+import fixture from "../fixtures/mockDebate.json";
+
+// --- PROVEDOR OFFLINE (DEMOS E TESTES) ---
+// Reproduz um roteiro fixo de transcrição e devolve vereditos pré-definidos,
+// sem chave de API nem rede. Mesma entrada => mesma saída.
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const normalize = (text: string) =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+function findFixtureVerdict(text: string): unknown {
+    const target = normalize(text);
+    const found = fixture.verdicts.find(v => target.includes(normalize(v.match)));
+    return found || fixture.defaultVerdict;
+}
+
+const connectToLiveDebate: FactCheckProvider['connectToLiveDebate'] = async (
+  _sessionId,
+  _stream,
+  onTranscript,
+  _onError,
+  onStatus
+): Promise<LiveConnectionController> => {
+  let active = true;
+  const connection = createConnectionStateStore('CONNECTED');
+  onStatus?.({ type: 'info', key: 'status.mockOnline' });
+
+  const playScript = async () => {
+      for (const line of fixture.transcript) {
+          const words = line.text.split(/\s+/);
+          for (let i = 1; i <= words.length; i++) {
+              if (!active) return;
+              onTranscript({ text: words.slice(0, i).join(" "), speaker: line.speaker, isFinal: false });
+              await wait(fixture.wordIntervalMs);
+          }
+          if (!active) return;
+          onTranscript({ text: line.text, speaker: line.speaker, isFinal: true });
+          await wait(fixture.pauseBetweenLinesMs);
+      }
+      if (active) onStatus?.({ type: 'info', key: 'status.scriptDone' });
+  };
+
+  playScript();
+
+  return {
+      disconnect: async () => {
+          active = false;
+          connection.set('DISCONNECTED');
+      },
+      getState: connection.get,
+      onStateChange: connection.subscribe
+  };
+};
+
+// Frases com números ou com veredito no roteiro são consideradas verificáveis
+const extractClaims = async (_sessionId: string, text: string): Promise<Omit<Claim, 'id'>[]> => {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence && !sentence.endsWith('?'))
+    .map(sentence => {
+        const hasFixture = fixture.verdicts.some(v => normalize(sentence).includes(normalize(v.match)));
+        return {
+            text: sentence,
+            checkworthiness: hasFixture ? 0.9 : /\d/.test(sentence) ? 0.7 : 0.2
+        };
+    });
+};
+
+const analyzeStatement = async (
+  _sessionId: string,
+  text: string,
+  segmentId: string,
+  contextHistory: string[] = [],
+  speaker: string = UNKNOWN_SPEAKER,
+  _language: Language = DEFAULT_LANGUAGE,
+  verification: VerificationContext = {}
+): Promise<AnalysisResult> => {
+  const priorStatements = verification.priorStatements || [];
+  const evidence = verification.evidence || [];
+  await wait(fixture.verificationLatencyMs);
+  // O roteiro passa pelo mesmo schema das respostas reais
+  const result = validateAnalysisPayload(findFixtureVerdict(text));
+  if ('errors' in result) {
+    return {
+      segmentId,
+      speaker,
+      status: 'PARSE_FAILURE',
+      parseErrors: result.errors,
+      verdict: VerdictType.UNVERIFIABLE,
+      confidence: 0,
+      // O texto exibido vem da interface (analysis.parseFailed)
+      explanation: "",
+      sources: [],
+      sentimentScore: 0,
+      logicalFallacies: [],
+      context: contextHistory
+    };
+  }
+  // O roteiro não conhece o acervo: todo trecho encontrado é citado
+  const data = { ...result.value, evidenceRefs: evidence.map((_, i) => evidenceRef(i)) };
+
+  return {
+    segmentId,
+    speaker,
+    status: 'DONE',
+    verdict: data.verdict,
+    confidence: data.confidence,
+    explanation: data.explanation,
+    counterEvidence: data.counterEvidence,
+    sources: [...resolveEvidenceSources(data, evidence), ...data.sources],
+    sentimentScore: data.sentimentScore,
+    logicalFallacies: data.logicalFallacies,
+    // O roteiro pode citar uma declaração anterior em "contradiction" ({"ref": "A1", ...})
+    priorStatements: priorStatements.length ? priorStatements : undefined,
+    contradiction: resolveContradiction(data, priorStatements),
+    context: contextHistory,
+    tokenUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 }
+  };
+};
+
+export const mockProvider: FactCheckProvider = {
+  id: 'mock',
+  label: 'Simulado',
+  requiresAudioCapture: false,
+  connectToLiveDebate,
+  extractClaims,
+  analyzeStatement,
+};
@@ -0,0 +1,31 @@
+// --- SOBREPOSIÇÃO NA ROTAÇÃO DE SESSÃO ---
+// Na troca de sessão ao vivo as duas recebem o mesmo áudio por alguns segundos,
+// então o começo do texto da nova repete o fim do texto da anterior.
+
+const MIN_MATCH_WORDS = 2;
+// A nova sessão pode começar no meio de uma palavra ("...ção de empregos")
+const MAX_LEADING_SKIP = 2;
+const LEADING_SPEAKER_TAG = /^\s*\[[^\[\]]{1,60}\]:\s*/;
+
+const normalizeWord = (word: string) =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Remove do início de `incoming` as palavras que coincidem com o fim de `previousTail`.
+// Sem coincidência de pelo menos MIN_MATCH_WORDS palavras, devolve o texto inteiro.
+export function dedupeOverlap(previousTail: string, incoming: string): string {
+  // Tag de orador no começo da nova sessão é mantida: ela vale para o que vem depois
+  const tag = incoming.match(LEADING_SPEAKER_TAG)?.[0] || '';
+  const words = incoming.slice(tag.length).split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalizeWord);
+  const previous = previousTail.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+  for (let skip = 0; skip <= MAX_LEADING_SKIP; skip++) {
+    for (let k = Math.min(previous.length, normalized.length - skip); k >= MIN_MATCH_WORDS; k--) {
+      const suffix = previous.slice(previous.length - k);
+      if (normalized.slice(skip, skip + k).every((word, i) => word === suffix[i])) {
+        return tag + words.slice(skip + k).join(' ');
+      }
+    }
+  }
+  return incoming;
+}
@@ -0,0 +1,181 @@
+import { UNKNOWN_SPEAKER } from "../types";
+import type { TranscriptHandler } from "./factCheckProvider";
+
+// --- SEGMENTAÇÃO DA TRANSCRIÇÃO ---
+// Decide quando um trecho transcrito vira um segmento final (enviado para triagem).
+// Fecha segmentos em fim de frase ou em silêncio detectado pela energia do áudio,
+// respeita tamanhos mínimo/máximo e segura cada segmento por uma janela curta,
+// para juntar a continuação da mesma frase antes de mandar para análise.
+
+export interface SegmenterOptions {
+  // Frases mais curtas que isso esperam a próxima antes de fechar
+  minChars: number;
+  // Acima disso o segmento é cortado na última pausa (vírgula, ponto e vírgula) ou espaço
+  maxChars: number;
+  // Silêncio contínuo que encerra a fala em andamento
+  silenceMs: number;
+  // RMS (0..1) abaixo do qual o áudio conta como silêncio
+  silenceThreshold: number;
+  // Quanto tempo um segmento fechado espera por uma continuação
+  continuationWindowMs: number;
+}
+
+export interface TranscriptSegmenter {
+  pushText: (text: string) => void;
+  // Energia de um bloco de áudio (RMS) e sua duração
+  pushEnergy: (rms: number, durationMs: number) => void;
+  setSpeaker: (speaker: string) => void;
+  flush: () => void;
+  dispose: () => void;
+}
+
+export const DEFAULT_SEGMENTER_OPTIONS: SegmenterOptions = {
+  minChars: Number(process.env.SEGMENT_MIN_CHARS) || 40,
+  maxChars: Number(process.env.SEGMENT_MAX_CHARS) || 400,
+  silenceMs: Number(process.env.SEGMENT_SILENCE_MS) || 700,
+  silenceThreshold: 0.01,
+  continuationWindowMs: 1500,
+};
+
+// Pontos que não encerram frase ("Sr. Silva", "art. 5º")
+const ABBREVIATIONS = new Set(['sr', 'sra', 'srs', 'dr', 'dra', 'prof', 'profa', 'art', 'etc', 'ex', 'nº', 'pág', 'vs', 'mr', 'mrs', 'st']);
+
+// Palavras que costumam abrir a continuação da frase anterior
+const CONTINUATION_WORDS = new Set(['e', 'mas', 'porque', 'pois', 'que', 'então', 'ou', 'nem', 'porém', 'y', 'pero', 'and', 'but', 'because', 'or', 'so']);
+
+const SENTENCE_END_REGEX = /[.!?…]+["'”)\]]?(?=\s)/g;
+const TERMINAL_REGEX = /[.!?…]["'”)\]]?$/;
+
+const isAbbreviation = (text: string, endIndex: number) => {
+  const word = text.slice(0, endIndex).split(/\s+/).pop() || '';
+  return ABBREVIATIONS.has(word.toLowerCase().replace(/[^\p{L}º]/gu, ''));
+};
+
+// Índice logo após o primeiro fim de frase que fecha um trecho de pelo menos minChars
+const findSentenceBoundary = (text: string, minChars: number): number => {
+  for (const match of text.matchAll(SENTENCE_END_REGEX)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end < minChars || isAbbreviation(text, match.index ?? 0)) continue;
+    return end;
+  }
+  return -1;
+};
+
+// Corte forçado de trechos longos demais: prefere pausas de oração a espaços
+const findForcedBoundary = (text: string, maxChars: number): number => {
+  const head = text.slice(0, maxChars);
+  const clause = Math.max(head.lastIndexOf(', '), head.lastIndexOf('; '), head.lastIndexOf(': '));
+  if (clause > maxChars / 2) return clause + 1;
+  const space = head.lastIndexOf(' ');
+  return space > 0 ? space : maxChars;
+};
+
+const looksLikeContinuation = (previous: string, next: string) => {
+  if (!TERMINAL_REGEX.test(previous)) return true;
+  const firstWord = next.split(/\s+/)[0].toLowerCase().replace(/[^\p{L}]/gu, '');
+  if (CONTINUATION_WORDS.has(firstWord)) return true;
+  const firstLetter = next.match(/\p{L}/u)?.[0];
+  return !!firstLetter && firstLetter === firstLetter.toLowerCase() && firstLetter !== firstLetter.toUpperCase();
+};
+
+export const createTranscriptSegmenter = (
+  onTranscript: TranscriptHandler,
+  overrides: Partial<SegmenterOptions> = {}
+): TranscriptSegmenter => {
+  const options = { ...DEFAULT_SEGMENTER_OPTIONS, ...overrides };
+
+  let buffer = "";
+  let speaker = UNKNOWN_SPEAKER;
+  let held: { text: string; speaker: string } | null = null;
+  let holdTimer: ReturnType<typeof setTimeout> | null = null;
+  let silentMs = 0;
+
+  const emitPartial = () => {
+    const text = [held?.text, buffer.trim()].filter(Boolean).join(' ');
+    if (text) onTranscript({ text, speaker, isFinal: false });
+  };
+
+  const release = () => {
+    if (holdTimer) clearTimeout(holdTimer);
+    holdTimer = null;
+    if (!held) return;
+    const segment = held;
+    held = null;
+    onTranscript({ text: segment.text, speaker: segment.speaker, isFinal: true });
+  };
+
+  // Um trecho completo fica retido pela janela de continuação antes de ser liberado
+  const commit = (raw: string) => {
+    const text = raw.trim();
+    if (!text) return;
+
+    if (held && held.speaker === speaker && looksLikeContinuation(held.text, text)
+        && held.text.length + text.length < options.maxChars) {
+      held = { text: `${held.text} ${text}`, speaker };
+    } else {
+      release();
+      held = { text, speaker };
+    }
+
+    if (holdTimer) clearTimeout(holdTimer);
+    holdTimer = setTimeout(() => {
+      release();
+      emitPartial();
+    }, options.continuationWindowMs);
+  };
+
+  const splitBuffer = () => {
+    let boundary = findSentenceBoundary(buffer, options.minChars);
+    while (boundary !== -1 || buffer.length > options.maxChars) {
+      if (boundary === -1) boundary = findForcedBoundary(buffer, options.maxChars);
+      commit(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\s+/, '');
+      boundary = findSentenceBoundary(buffer, options.minChars);
+    }
+  };
+
+  return {
+    pushText: (text) => {
+      if (!text) return;
+      buffer += text;
+      silentMs = 0;
+      splitBuffer();
+      emitPartial();
+    },
+
+    pushEnergy: (rms, durationMs) => {
+      if (rms >= options.silenceThreshold) {
+        silentMs = 0;
+        return;
+      }
+      const wasSpeaking = silentMs < options.silenceMs;
+      silentMs += durationMs;
+      // Pausa longa: o que estiver no buffer é uma fala completa, mesmo sem pontuação
+      if (wasSpeaking && silentMs >= options.silenceMs && buffer.trim()) {
+        commit(buffer);
+        buffer = "";
+      }
+    },
+
+    setSpeaker: (next) => {
+      if (next === speaker) return;
+      commit(buffer);
+      buffer = "";
+      release();
+      speaker = next;
+    },
+
+    flush: () => {
+      commit(buffer);
+      buffer = "";
+      release();
+    },
+
+    dispose: () => {
+      if (holdTimer) clearTimeout(holdTimer);
+      holdTimer = null;
+      held = null;
+      buffer = "";
+    }
+  };
+};
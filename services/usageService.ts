@@ -0,0 +1,22 @@
+import { SessionUsage } from '../types';
+import { apiFetch } from './apiClient';
+
+const API_BASE = '/api/ai/usage';
+
+export const fetchSessionUsage = async (sessionId: string): Promise<SessionUsage> => {
+  const response = await apiFetch(`${API_BASE}?sessionId=${encodeURIComponent(sessionId)}`);
+  if (!response.ok) throw new Error(`Falha ao carregar consumo (${response.status})`);
+  return response.json();
+};
+
+// null remove o teto de gasto da sessão
+export const updateSessionBudget = async (sessionId: string, budgetUsd: number | null): Promise<SessionUsage> => {
+  const response = await apiFetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, budgetUsd })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Falha ao salvar orçamento (${response.status})`);
+  return data;
+};
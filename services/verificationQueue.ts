@@ -0,0 +1,172 @@
+// --- FILA DE VERIFICAÇÃO ---
+// Limita chamadas simultâneas ao provedor, prioriza as afirmações mais recentes
+// e pausa a fila inteira com backoff exponencial quando a quota estoura (429).
+// Com o orçamento da sessão esgotado a fila fica retida até resume().
+
+export interface VerificationQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  onChange?: (state: VerificationQueueState) => void;
+}
+
+export interface VerificationQueueState {
+  pending: number;
+  running: number;
+  // Epoch (ms) até quando a fila está pausada por limite de quota
+  pausedUntil: number | null;
+  // Retida por orçamento esgotado: só volta a andar com resume()
+  held: boolean;
+}
+
+export interface JobHooks {
+  onStart?: () => void;
+  onRetry?: (attempt: number, delayMs: number) => void;
+  onHold?: () => void;
+}
+
+export interface VerificationQueue {
+  enqueue: <T>(id: string, task: () => Promise<T>, hooks?: JobHooks) => Promise<T>;
+  getState: () => VerificationQueueState;
+  resume: () => void;
+  clear: () => void;
+}
+
+interface Job {
+  id: string;
+  task: () => Promise<unknown>;
+  hooks: JobHooks;
+  enqueuedAt: number;
+  attempts: number;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: VerificationQueueOptions = {
+  concurrency: Number(process.env.VERIFICATION_CONCURRENCY) || 2,
+  maxRetries: 4,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60000,
+};
+
+// Quota da sessão esgotada no servidor (api/_lib/usage.ts): tentar de novo não adianta
+export function isQuotaExceededError(error: any): boolean {
+  return error?.code === 'QUOTA_EXCEEDED';
+}
+
+// Orçamento de gasto da sessão esgotado: a fila espera o teto ser ajustado
+export function isBudgetExceededError(error: any): boolean {
+  return error?.code === 'BUDGET_EXCEEDED';
+}
+
+export function isRateLimitError(error: any): boolean {
+  if (!error || isQuotaExceededError(error) || isBudgetExceededError(error)) return false;
+  if (error.status === 429 || error.code === 429) return true;
+  return /429|RESOURCE_EXHAUSTED|quota|rate limit/i.test(String(error.message || error));
+}
+
+export const createVerificationQueue = (
+  overrides: Partial<VerificationQueueOptions> = {}
+): VerificationQueue => {
+  const options = { ...DEFAULT_QUEUE_OPTIONS, ...overrides };
+  let pending: Job[] = [];
+  let running = 0;
+  let pausedUntil: number | null = null;
+  let held = false;
+  let resumeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const getState = (): VerificationQueueState => ({ pending: pending.length, running, pausedUntil, held });
+  const notify = () => options.onChange?.(getState());
+
+  // Mais recente primeiro: a afirmação que acabou de ser dita é a que o público está ouvindo
+  const takeNewest = (): Job | undefined => {
+    if (pending.length === 0) return undefined;
+    const newest = pending.reduce((a, b) => (b.enqueuedAt > a.enqueuedAt ? b : a));
+    pending = pending.filter(job => job !== newest);
+    return newest;
+  };
+
+  const pauseFor = (delayMs: number) => {
+    pausedUntil = Math.max(pausedUntil || 0, Date.now() + delayMs);
+    if (resumeTimeout) clearTimeout(resumeTimeout);
+    resumeTimeout = setTimeout(() => {
+      pausedUntil = null;
+      resumeTimeout = null;
+      notify();
+      pump();
+    }, pausedUntil - Date.now());
+  };
+
+  const run = async (job: Job) => {
+    running++;
+    job.attempts++;
+    job.hooks.onStart?.();
+    notify();
+
+    try {
+      job.resolve(await job.task());
+    } catch (error) {
+      if (isBudgetExceededError(error)) {
+        // A espera pelo orçamento não conta como tentativa
+        job.attempts--;
+        job.hooks.onHold?.();
+        pending.push(job);
+        held = true;
+      } else if (isRateLimitError(error) && job.attempts <= options.maxRetries) {
+        const backoff = Math.min(options.maxBackoffMs, options.baseBackoffMs * 2 ** (job.attempts - 1));
+        const delayMs = backoff + Math.random() * options.baseBackoffMs;
+        console.warn(`Quota atingida, nova tentativa de ${job.id} em ${Math.round(delayMs)}ms`);
+        job.hooks.onRetry?.(job.attempts, delayMs);
+        pending.push(job);
+        pauseFor(delayMs);
+      } else {
+        job.reject(error);
+      }
+    } finally {
+      running--;
+      notify();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (held || (pausedUntil && pausedUntil > Date.now())) return;
+    while (running < options.concurrency) {
+      const job = takeNewest();
+      if (!job) break;
+      run(job);
+    }
+  };
+
+  return {
+    enqueue: <T>(id: string, task: () => Promise<T>, hooks: JobHooks = {}) =>
+      new Promise<T>((resolve, reject) => {
+        // Reenfileirar o mesmo id substitui o job pendente anterior
+        pending = pending.filter(job => {
+          if (job.id !== id) return true;
+          job.reject(new Error("Substituído por nova solicitação"));
+          return false;
+        });
+        pending.push({ id, task, hooks, enqueuedAt: Date.now(), attempts: 0, resolve, reject });
+        notify();
+        pump();
+      }),
+    getState,
+    resume: () => {
+      if (!held) return;
+      held = false;
+      notify();
+      pump();
+    },
+    clear: () => {
+      pending.forEach(job => job.reject(new Error("Fila limpa")));
+      pending = [];
+      pausedUntil = null;
+      held = false;
+      if (resumeTimeout) clearTimeout(resumeTimeout);
+      resumeTimeout = null;
+      notify();
+    },
+  };
+};
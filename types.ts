@@ -9,22 +9,125 @@ export enum VerdictType {
 export interface Source {
   uri: string;
   title: string;
+  // Documento do acervo interno da redação (uri pode ficar vazia)
+  internal?: boolean;
 }
 
 export interface LogicalFallacy {
+  id?: string;
   name: string;
   description: string;
 }
 
+// Rótulo usado quando o orador não pôde ser identificado
+export const UNKNOWN_SPEAKER = 'DEBATE';
+
+// Idioma falado no debate: orienta a transcrição e a resposta das verificações
+export type Language = 'pt-BR' | 'es' | 'en';
+
+export const LANGUAGES: Language[] = ['pt-BR', 'es', 'en'];
+
+export const DEFAULT_LANGUAGE: Language = 'pt-BR';
+
+export interface Participant {
+  id: string;
+  name: string;
+  role?: string;
+}
+
+// Afirmação verificável extraída de um segmento da transcrição
+export interface Claim {
+  id: string;
+  text: string;
+  checkworthiness: number;
+}
+
 export interface DebateSegment {
   id: string;
   speaker: string;
   text: string;
   timestamp: number;
+  // Segundos desde o início da mídia, quando a fonte é um arquivo gravado
+  mediaTime?: number;
+  claims?: Claim[];
+  // Correção manual da transcrição: texto transcrito original e quando foi corrigido
+  originalText?: string;
+  editedAt?: number;
+  // Áudio perdido numa queda da conexão ao vivo, logo antes desta fala
+  audioGapMs?: number;
+}
+
+// Afirmação verificada anteriormente pelo mesmo orador (esta ou outras sessões)
+export interface PriorStatement {
+  segmentId: string;
+  sessionId: string;
+  text: string;
+  verdict: VerdictType;
+  spokenAt: number;
+}
+
+// Documento do acervo interno: dossiês, tabelas oficiais, checagens já publicadas
+export interface CorpusDocument {
+  id: string;
+  title: string;
+  uri?: string;
+  language: Language;
+  chunkCount: number;
+  createdAt: string;
+}
+
+// Trecho de um documento do acervo recuperado pela busca textual
+export interface EvidenceChunk {
+  id: string;
+  documentId: string;
+  title: string;
+  uri?: string;
+  content: string;
+  score: number;
+}
+
+// Entradas extras da verificação, além da afirmação e do contexto recente
+export interface VerificationContext {
+  priorStatements?: PriorStatement[];
+  evidence?: EvidenceChunk[];
+}
+
+// Ciclo de vida de um item do feed de análise
+export type AnalysisStatus = 'PENDING' | 'DONE' | 'ERROR' | 'PARSE_FAILURE';
+
+export type ReviewStatus = 'APPROVED' | 'OVERRIDDEN' | 'FLAGGED';
+
+// Revisão editorial; o veredito original do modelo fica preservado no servidor (raw_response)
+export interface EditorReview {
+  status: ReviewStatus;
+  editor: string;
+  note?: string;
+  reviewedAt: number;
+  originalVerdict?: VerdictType;
 }
 
 export interface AnalysisResult {
   segmentId: string;
+  parentSegmentId?: string;
+  speaker?: string;
+  status?: AnalysisStatus;
+  parseErrors?: string[];
+  timestamp?: number;
+  review?: EditorReview;
+  // Verificação descartada porque a transcrição do segmento foi corrigida
+  superseded?: boolean;
+  // Preenchido quando o veredito foi reaproveitado de uma verificação anterior
+  repeatOf?: {
+    segmentId: string;
+    sessionId: string;
+    checkedAt: number;
+  };
+  // Falas anteriores parecidas do mesmo orador e, se houver, a que esta contradiz
+  priorStatements?: PriorStatement[];
+  contradiction?: {
+    segmentId: string;
+    explanation: string;
+  };
   verdict: VerdictType;
   confidence: number;
   explanation: string;
@@ -38,4 +141,69 @@ export interface AnalysisResult {
     responseTokens: number;
     totalTokens: number;
   };
-}
\ No newline at end of file
+}
+
+export type SessionStatus = 'active' | 'completed';
+
+export interface SessionSummary {
+  sessionId: string;
+  status: SessionStatus;
+  startedAt: string;
+  endedAt?: string;
+  participants: Participant[];
+  language: Language;
+  segmentCount: number;
+  analysisCount: number;
+}
+
+export interface SessionDetail {
+  session: SessionSummary;
+  segments: DebateSegment[];
+  analyses: AnalysisResult[];
+}
+
+// Consumo de IA agregado; custo estimado em USD pela tabela de preços do servidor
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageBucket extends UsageTotals {
+  // Dia (AAAA-MM-DD, UTC) ou nome do modelo
+  key: string;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  totals: UsageTotals;
+  byDay: UsageBucket[];
+  byModel: UsageBucket[];
+  // Teto de gasto da sessão em USD; null = sem teto
+  budgetUsd: number | null;
+  overBudget: boolean;
+}
+
+export type UserRole = 'admin' | 'member';
+
+// Usuário autenticado e a organização dona das suas sessões
+export interface Account {
+  userId: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  organization: {
+    id: string;
+    name: string;
+  };
+}
+
+// Token de integração (o valor em texto puro só é exibido na criação)
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
@@ -7,10 +7,15 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
   
+  // A chave do Gemini não entra aqui: fica só no servidor (api/_lib/gemini.ts)
   return {
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.FACTCHECK_PROVIDER': JSON.stringify(env.FACTCHECK_PROVIDER),
+      'process.env.VERIFICATION_CONCURRENCY': JSON.stringify(env.VERIFICATION_CONCURRENCY),
+      'process.env.SEGMENT_MIN_CHARS': JSON.stringify(env.SEGMENT_MIN_CHARS),
+      'process.env.SEGMENT_MAX_CHARS': JSON.stringify(env.SEGMENT_MAX_CHARS),
+      'process.env.SEGMENT_SILENCE_MS': JSON.stringify(env.SEGMENT_SILENCE_MS),
     }
   };
 });
\ No newline at end of file